@@ -102,6 +102,15 @@ export async function removeDoc(notebook: NotebookId, path: string) {
 }
 
 
+export async function removeDocByID(id: DocumentId) {
+    let data = {
+        id: id,
+    };
+    let url = '/api/filetree/removeDocByID';
+    return request(url, data);
+}
+
+
 export async function moveDocs(fromPaths: string[], toNotebook: NotebookId, toPath: string) {
     let data = {
         fromPaths: fromPaths,
@@ -288,6 +297,62 @@ export async function getBlockAttrs(id: BlockId): Promise<{ [key: string]: strin
     return request(url, data);
 }
 
+// **************************************** Attribute View ****************************************
+
+export async function getAttributeViewKeysByAvID(avID: string): Promise<IResAttributeViewKey[]> {
+    let data = {
+        avID: avID
+    }
+    let url = '/api/av/getAttributeViewKeysByAvID';
+    return request(url, data);
+}
+
+
+export async function addAttributeViewKey(
+    avID: string, keyID: string, keyName: string, keyType: string,
+    keyIcon: string = '', previousKeyID: string = ''
+) {
+    let data = {
+        avID: avID,
+        keyID: keyID,
+        keyName: keyName,
+        keyType: keyType,
+        keyIcon: keyIcon,
+        previousKeyID: previousKeyID
+    }
+    let url = '/api/av/addAttributeViewKey';
+    return request(url, data);
+}
+
+
+export async function appendAttributeViewDetachedBlocksWithValues(avID: string, blocksValues: any[][]) {
+    let data = {
+        avID: avID,
+        blocksValues: blocksValues
+    }
+    let url = '/api/av/appendAttributeViewDetachedBlocksWithValues';
+    return request(url, data);
+}
+
+
+export async function getAttributeViewPrimaryKeyValues(avID: string): Promise<IResAttributeViewPrimaryKeyValues> {
+    let data = {
+        id: avID
+    }
+    let url = '/api/av/getAttributeViewPrimaryKeyValues';
+    return request(url, data);
+}
+
+
+export async function removeAttributeViewBlocks(avID: string, srcIDs: string[]) {
+    let data = {
+        avID: avID,
+        srcIDs: srcIDs
+    }
+    let url = '/api/av/removeAttributeViewBlocks';
+    return request(url, data);
+}
+
 // **************************************** SQL ****************************************
 
 export async function sql(sql: string): Promise<any[]> {
@@ -304,6 +369,11 @@ export async function getBlockByID(blockId: string): Promise<Block> {
     return data[0];
 }
 
+export async function flushTransaction() {
+    let url = '/api/sqlite/flushTransaction';
+    return request(url, {});
+}
+
 // **************************************** Template ****************************************
 
 export async function render(id: DocumentId, path: string): Promise<IResGetTemplates> {
@@ -0,0 +1,272 @@
+/**
+ * 插件上下文：各功能模块（扫描、上传、监视、任务日志与历史、对话框……）共享的插件状态与服务。
+ * 由插件主类实现，模块通过它访问设置、存储、队列和其他模块。
+ */
+import type {IconMap} from "./libs/icons";
+import type {OutputFormat, RenderContext} from "./libs/render";
+import type {AssetHashIndex} from "./libs/asset-index";
+import type {UploadJournal} from "./libs/journal";
+import type {UploadHistory} from "./libs/history";
+import type {ManifestStore} from "./libs/manifest-store";
+import type {UploadQueue, UploadTask} from "./libs/upload-queue";
+import type {IPluginSettings} from "./settings";
+import type {Workspace} from "./files";
+import type {FolderScanner} from "./scanner";
+import type {AssetUploader} from "./uploader";
+import type {TreeOutput} from "./tree-output";
+import type {MarkdownImporter} from "./markdown-import";
+import type {LocalFileUploader} from "./local-files";
+import type {FolderUploader} from "./folder-upload";
+import type {UploadJobs} from "./jobs";
+import type {FolderWatcher} from "./watcher";
+import type {UploadDialogs} from "./dialogs";
+
+// 国际化接口定义
+export interface II18n {
+    pluginLoaded: string;
+    pluginUnloaded: string;
+    uploadCanceled: string;
+    insertFolderTree: string;
+    uploadHistory: string;
+    error: {
+        workspacePath: string;
+        depthExceeded: string;
+        pathTraversal: string;
+        pathEmpty: string;
+        workspaceAncestor: string;
+        workspaceFile: string;
+        handleLink: string;
+        noBlockId: string;
+        fileNotExist: string;
+        handleFolder: string;
+        fileTooLarge: string;
+        cannotRead: string;
+        readFileFailed: string;
+        batchUploadFailed: string;
+        batchRetry: string;
+        batchSplit: string;
+        fileUploadFailed: string;
+        uploadFailed: string;
+        insertFailed: string;
+        unknownTarget: string;
+        databaseFailed: string;
+        archiveFailed: string;
+        archiveTooLarge: string;
+        symlinkRefused: string;
+        tooManyFiles: string;
+    };
+    upload: {
+        label: string;
+        labelWithFilters: string;
+        labelFormat: string;
+        labelArchive: string;
+        labelLinks: string;
+        linksInserted: string;
+        filterPrompt: string;
+        skipped: string;
+        deduped: string;
+        scanning: string;
+        emptyFolder: string;
+        foundFiles: string;
+        success: string;
+        partialFailed: string;
+        failedFilesList: string;
+        fileCount: string;
+        retried: string;
+        memoryPeak: string;
+    };
+    queue: {
+        title: string;
+        empty: string;
+        clear: string;
+        history: string;
+        queued: string;
+        running: string;
+        done: string;
+        failed: string;
+        canceled: string;
+        failures: string;
+        deduped: string;
+        elapsed: string;
+        cancel: string;
+        retry: string;
+        retryFailed: string;
+        retryTitle: string;
+    };
+    drop: {
+        title: string;
+        confirm: string;
+    };
+    history: {
+        title: string;
+        empty: string;
+        item: string;
+        failures: string;
+        undo: string;
+        undoConfirm: string;
+        undoConfirmDocs: string;
+        undoConfirmFiles: string;
+        undone: string;
+        undoFailed: string;
+    };
+    watch: {
+        label: string;
+        stopLabel: string;
+        started: string;
+        stopped: string;
+        failed: string;
+        restoreFailed: string;
+        syncFailed: string;
+        deleted: string;
+    };
+    journal: {
+        title: string;
+        description: string;
+        item: string;
+        resume: string;
+        discard: string;
+        discarded: string;
+        resumed: string;
+    };
+    importDocs: {
+        label: string;
+        noDocument: string;
+        success: string;
+    };
+    file: {
+        label: string;
+        selectionLabel: string;
+        selectionName: string;
+        success: string;
+        notReplaced: string;
+    };
+    resync: {
+        label: string;
+        noSource: string;
+        unchanged: string;
+        success: string;
+        linksRefreshed: string;
+    };
+    progress: {
+        title: string;
+        scanning: string;
+        packing: string;
+        uploading: string;
+        inserting: string;
+        done: string;
+        canceled: string;
+        scanned: string;
+        batch: string;
+        bytes: string;
+        eta: string;
+        failures: string;
+        retryFailed: string;
+        cancel: string;
+        close: string;
+    };
+    format: Record<OutputFormat, string>;
+    columns: RenderContext["columns"];
+    preview: {
+        title: string;
+        format: string;
+        selectAll: string;
+        selectNone: string;
+        total: string;
+        confirm: string;
+    };
+    setting: {
+        batchSize: string;
+        batchSizeDesc: string;
+        batchBytes: string;
+        batchBytesDesc: string;
+        maxDepth: string;
+        maxDepthDesc: string;
+        maxFileSize: string;
+        maxFileSizeDesc: string;
+        maxFiles: string;
+        maxFilesDesc: string;
+        queueConcurrency: string;
+        queueConcurrencyDesc: string;
+        hiddenDirs: string;
+        hiddenDirsDesc: string;
+        ignorePatterns: string;
+        ignorePatternsDesc: string;
+        useIgnoreFiles: string;
+        useIgnoreFilesDesc: string;
+        showPreview: string;
+        showPreviewDesc: string;
+        dedupe: string;
+        dedupeDesc: string;
+        importMarkdown: string;
+        importMarkdownDesc: string;
+        assetLayout: string;
+        assetLayoutDesc: string;
+        assetLayoutFlat: string;
+        assetLayoutMirror: string;
+        symlinkPolicy: string;
+        symlinkPolicyDesc: string;
+        symlinkSkip: string;
+        symlinkRecord: string;
+        symlinkFollow: string;
+        outputFormat: string;
+        outputFormatDesc: string;
+        itemTemplate: string;
+        itemTemplateDesc: string;
+        iconMap: string;
+        iconMapDesc: string;
+        iconMapInvalid: string;
+        embedImages: string;
+        embedImagesDesc: string;
+        embedImageMaxSize: string;
+        embedImageMaxSizeDesc: string;
+        embedMedia: string;
+        embedMediaDesc: string;
+        embedCode: string;
+        embedCodeDesc: string;
+        embedCodeMaxSize: string;
+        embedCodeMaxSizeDesc: string;
+        rebuildIndex: string;
+        rebuildIndexDesc: string;
+        rebuildIndexButton: string;
+        rebuildIndexRunning: string;
+        rebuildIndexDone: string;
+        rebuildIndexFailed: string;
+        outOfRange: string;
+    };
+    workspaceInitFailed: string;
+}
+
+export interface PluginContext {
+    readonly name: string;
+    readonly i18n: II18n;
+    readonly settings: IPluginSettings;        // 当前生效的设置
+    readonly icons: IconMap;                   // 默认图标与自定义图标合并后的映射
+    readonly uploadQueue: UploadQueue;         // 上传队列
+    readonly assetIndex: AssetHashIndex;       // 资源内容哈希索引
+    readonly journal: UploadJournal;           // 上传任务日志
+    readonly history: UploadHistory;           // 上传历史
+    readonly manifests: ManifestStore;         // 目录树的上传清单
+    readonly workspace: Workspace;             // 思源工作空间（路径校验）
+    readonly scanner: FolderScanner;           // 目录扫描
+    readonly uploader: AssetUploader;          // 资源上传
+    readonly output: TreeOutput;               // 目录树的生成、插入与块属性
+    readonly importer: MarkdownImporter;       // Markdown 文件导入为文档
+    readonly localFiles: LocalFileUploader;    // 文档中本地文件链接的上传
+    readonly folders: FolderUploader;          // 文件夹上传与重新同步
+    readonly jobs: UploadJobs;                 // 任务日志与上传历史
+    readonly watcher: FolderWatcher;           // 源目录监视
+    readonly dialogs: UploadDialogs;           // 进度面板与对话框
+
+    /** 取消任务 */
+    cancelTask(task: UploadTask): void;
+    /** 将任务结束后的失败文件作为新任务重新上传 */
+    retryFailedFiles(task: UploadTask): void;
+    /** 获取错误信息的字符串表示 */
+    getErrorMessage(err: unknown): string;
+    /** 记录错误日志 */
+    logError(message: string, err?: unknown): void;
+    /** 记录警告日志 */
+    logWarn(message: string): void;
+    /** 记录调试日志 */
+    logDebug(message: string): void;
+}
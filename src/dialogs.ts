@@ -0,0 +1,152 @@
+/**
+ * 进度面板与对话框：上传进度、上传前预览、未完成任务与上传历史
+ */
+import {svelteDialog} from "./libs/dialog";
+import {UploadJob} from "./libs/journal";
+import {HistoryEntry} from "./libs/history";
+import {UploadTask} from "./libs/upload-queue";
+import {OUTPUT_FORMATS, OutputFormat} from "./libs/render";
+import UploadPreview from "./components/upload-preview.svelte";
+import ProgressPanel from "./components/progress-panel.svelte";
+import UnfinishedJobs from "./components/unfinished-jobs.svelte";
+import UploadHistoryList from "./components/upload-history.svelte";
+import {getFileName} from "./files";
+import {PluginContext} from "./context";
+
+const PROGRESS_AUTO_CLOSE_DELAY = 3000;       // 上传全部成功后进度面板自动关闭的延迟（毫秒）
+
+export class UploadDialogs {
+    private plugin: PluginContext;
+    private progressPanel: ProgressPanel | null = null;       // 进度面板组件
+    private panelTask: UploadTask | null = null;              // 进度面板展示的任务
+
+    constructor(plugin: PluginContext) {
+        this.plugin = plugin;
+    }
+
+    /** 显示未完成任务对话框，由用户选择继续或放弃；直接关闭则下次启动时再次提示 */
+    showUnfinishedJobsDialog(): void {
+        const jobs = this.plugin.journal.list();
+        // 继续的任务完成前仍留在任务日志中，因此按对话框中尚未处理的条数决定何时关闭
+        let remaining = jobs.length;
+        const handled = () => {
+            remaining--;
+            if (remaining === 0) close();
+        };
+        const {close} = svelteDialog({
+            title: this.plugin.i18n.journal.title,
+            width: "560px",
+            constructor: (container) => new UnfinishedJobs({
+                target: container,
+                props: {
+                    jobs,
+                    i18n: this.plugin.i18n.journal,
+                    resume: (job: UploadJob) => {
+                        this.plugin.uploadQueue.add(getFileName(job.dirPath), task => this.plugin.jobs.resumeJob(task, job));
+                        handled();
+                    },
+                    discard: async (job: UploadJob) => {
+                        await this.plugin.jobs.discardJob(job);
+                        handled();
+                    },
+                },
+            }),
+        });
+    }
+
+    /** 显示上传历史对话框 */
+    showHistoryDialog(): void {
+        svelteDialog({
+            title: this.plugin.i18n.history.title,
+            width: "640px",
+            constructor: (container) => new UploadHistoryList({
+                target: container,
+                props: {
+                    entries: this.plugin.history.list(),
+                    i18n: this.plugin.i18n.history,
+                    undo: (entry: HistoryEntry) => this.plugin.jobs.undoUpload(entry),
+                },
+            }),
+        });
+    }
+
+    /**
+     * 打开任务的进度面板（替换正在显示的面板）
+     * @param task 上传任务
+     */
+    openProgressPanel(task: UploadTask): void {
+        this.closeProgressPanel();
+
+        this.panelTask = task;
+        this.progressPanel = new ProgressPanel({
+            target: document.body,
+            props: {
+                progress: task.progress,
+                i18n: this.plugin.i18n.progress,
+                cancel: () => this.plugin.cancelTask(task),
+                retryFailed: () => this.plugin.retryFailedFiles(task),
+                close: () => this.closeProgressPanel(),
+            },
+        });
+    }
+
+    /**
+     * 任务全部成功时延迟关闭其进度面板，有失败时保留面板供查看
+     * @param task 已结束的上传任务
+     */
+    scheduleProgressPanelClose(task: UploadTask): void {
+        const panel = this.progressPanel;
+        if (!panel || this.panelTask !== task || task.failures.length > 0) return;
+
+        setTimeout(() => {
+            if (this.progressPanel === panel) {
+                this.closeProgressPanel();
+            }
+        }, PROGRESS_AUTO_CLOSE_DELAY);
+    }
+
+    /** 关闭进度面板 */
+    closeProgressPanel(): void {
+        this.progressPanel?.$destroy();
+        this.progressPanel = null;
+        this.panelTask = null;
+    }
+
+    /**
+     * 显示上传预览对话框，由用户勾选需要上传的文件
+     * @param tree 扫描得到的目录树
+     * @param rootName 根目录名称
+     * @param format 默认选中的输出格式
+     * @returns 被取消勾选的节点集合与选择的输出格式，取消上传时返回 null
+     */
+    showPreviewDialog(
+        tree: TreeNode[],
+        rootName: string,
+        format: OutputFormat
+    ): Promise<{excluded: Set<TreeNode>, format: OutputFormat} | null> {
+        return new Promise((resolve) => {
+            let result: {excluded: Set<TreeNode>, format: OutputFormat} | null = null;
+            const {close} = svelteDialog({
+                title: this.plugin.i18n.preview.title.replace('${fileName}', rootName),
+                width: "640px",
+                height: "70vh",
+                constructor: (container) => new UploadPreview({
+                    target: container,
+                    props: {
+                        tree,
+                        rootName,
+                        i18n: this.plugin.i18n.preview,
+                        formats: OUTPUT_FORMATS.map(value => ({value, label: this.plugin.i18n.format[value]})),
+                        format,
+                        confirm: (excluded: Set<TreeNode>, format: OutputFormat) => {
+                            result = {excluded, format};
+                            close();
+                        },
+                        cancel: () => close(),
+                    },
+                }),
+                callback: () => resolve(result),
+            });
+        });
+    }
+}
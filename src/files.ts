@@ -0,0 +1,186 @@
+/**
+ * 本地文件与思源工作空间：文件路径、链接地址等工具函数，以及上传路径的安全校验
+ */
+import type {PluginContext} from "./context";
+
+// 通过 window.require 获取 Node.js 模块（思源插件环境限制）
+const fs = window.require('fs');
+const path = window.require('path');
+const electron = window.require('electron');
+
+// 常量定义
+export const FILE_PROTOCOL = "file://";
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];     // 可导入为文档的文件
+
+/**
+ * 判断是否为 Markdown 文件
+ * @param fileName 文件名
+ */
+export function isMarkdownFile(fileName: string): boolean {
+    return MARKDOWN_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+}
+
+/**
+ * 转义正则表达式中的特殊字符
+ * @param text 原始文本
+ * @returns 可直接用于 RegExp 的文本
+ */
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// 文件名缓存：避免重复计算 basename（性能优化）
+const fileNameCache = new Map<string, string>();
+
+/**
+ * 获取文件名（带缓存）
+ * @param filePath 文件完整路径
+ * @returns 文件名
+ */
+export function getFileName(filePath: string): string {
+    let name = fileNameCache.get(filePath);
+    if (!name) {
+        name = path.basename(filePath);
+        fileNameCache.set(filePath, name);
+    }
+    return name;
+}
+
+/** 清理缓存（操作完成后调用，释放内存） */
+export function clearCache() {
+    fileNameCache.clear();
+}
+
+/** 检查路径是否为目录 */
+export function isDirectory(dirPath: string): boolean {
+    try {
+        return fs.statSync(dirPath).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * 生成本地文件的 file:// 链接（解析链接时用 decodeURIComponent 还原路径）
+ * 括号也需要编码，否则会截断 Markdown 链接
+ * @param filePath 文件完整路径
+ * @returns 链接地址
+ */
+export function toFileUrl(filePath: string): string {
+    return FILE_PROTOCOL + encodeURIComponent(filePath)
+        .replace(/%2F/g, '/')
+        .replace(/%3A/g, ':')
+        .replace(/[()]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * 获取粘贴或拖放的条目在磁盘上的路径
+ * @param item 思源读取本地文件时为路径字符串，否则为 File 或 DataTransferItem
+ * @returns 文件路径，不是本地文件时返回 null
+ */
+export function getLocalFilePath(item: string | File | DataTransferItem): string | null {
+    if (typeof item === "string") return item;
+
+    const file = item instanceof File ? item : item.kind === "file" ? item.getAsFile() : null;
+    if (!file) return null;
+    // Electron 32 起移除了 File.path，改用 webUtils.getPathForFile
+    return electron.webUtils?.getPathForFile(file) || (file as File & {path?: string}).path || null;
+}
+
+/**
+ * 将路径片段转换为安全的资源目录名（去掉 Markdown 链接和 URL 中有歧义的字符）
+ * @param segment 目录名
+ * @returns 安全的目录名
+ */
+export function sanitizeAssetSegment(segment: string): string {
+    return segment.replace(/[\\/:*?"<>|#%()[\]\s]+/g, '-').replace(/^-+|-+$/g, '') || '_';
+}
+
+// 思源工作空间：上传路径不能位于工作空间内，也不能是它的祖先目录
+export class Workspace {
+    private plugin: PluginContext;
+    private siyuanWorkspaceDir: string | null = null;        // 思源工作目录原始路径
+    private normalizedWorkspaceDir: string | null = null;    // 规范化后的工作目录路径（缓存）
+
+    constructor(plugin: PluginContext) {
+        this.plugin = plugin;
+    }
+
+    /** 初始化思源工作目录 */
+    initSiyuanWorkspaceDir(): void {
+        try {
+            if (window.siyuan?.config?.system?.workspaceDir) {
+                this.siyuanWorkspaceDir = window.siyuan.config.system.workspaceDir;
+                this.normalizedWorkspaceDir = path.normalize(this.siyuanWorkspaceDir);
+            }
+        } catch (err) {
+            console.warn(this.plugin.i18n.workspaceInitFailed.replace('${error}', String(err)));
+        }
+    }
+
+    /**
+     * 检查路径是否在思源工作目录下
+     * @param filePath 待检查的文件路径
+     * @returns 是否在工作目录内
+     */
+    private isInSiyuanWorkspace(filePath: string): boolean {
+        if (!this.normalizedWorkspaceDir) return false;
+        const normalizedPath = path.normalize(filePath);
+        return normalizedPath.startsWith(this.normalizedWorkspaceDir + path.sep);
+    }
+
+    /**
+     * 检查路径是否为思源工作目录的祖先目录（防止上传父目录或工作目录本身）
+     * @param filePath 待检查的文件路径
+     * @returns 是否为工作目录的祖先
+     */
+    private isAncestorOfSiyuanWorkspace(filePath: string): boolean {
+        if (!this.normalizedWorkspaceDir) return false;
+        const normalizedPath = path.normalize(filePath);
+        return this.normalizedWorkspaceDir.startsWith(normalizedPath + path.sep) ||
+               normalizedPath === this.normalizedWorkspaceDir;
+    }
+
+    /**
+     * 安全验证：检查路径是否包含路径遍历攻击 (../)
+     * @param filePath 待检查的文件路径
+     * @returns 是否包含路径遍历字符
+     */
+    private hasPathTraversal(filePath: string): boolean {
+        return filePath.includes('..');
+    }
+
+    /**
+     * 综合路径验证（安全检查）
+     * @param filePath 待验证的文件路径
+     * @returns 验证结果
+     */
+    validatePath(filePath: string): {valid: boolean, error?: string} {
+        if (this.hasPathTraversal(filePath)) {
+            return {valid: false, error: this.plugin.i18n.error.pathTraversal};
+        }
+
+        if (!filePath || filePath.trim() === '') {
+            return {valid: false, error: this.plugin.i18n.error.pathEmpty};
+        }
+
+        if (this.isAncestorOfSiyuanWorkspace(filePath)) {
+            return {valid: false, error: this.plugin.i18n.error.workspaceAncestor};
+        }
+
+        if (this.isInSiyuanWorkspace(filePath)) {
+            return {valid: false, error: this.plugin.i18n.error.workspaceFile};
+        }
+
+        return {valid: true};
+    }
+
+    /**
+     * 检查资源文件是否仍存在于工作空间（无法确定工作目录时视为存在）
+     * @param url 资源地址，如 `assets/a-20240101120000-abcdefg.png`
+     */
+    assetExists(url: string): boolean {
+        if (!this.siyuanWorkspaceDir) return true;
+        return fs.existsSync(path.join(this.siyuanWorkspaceDir, 'data', url));
+    }
+}
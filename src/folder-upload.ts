@@ -0,0 +1,496 @@
+/**
+ * 文件夹上传：将上传、只链接和重新同步作为队列任务执行，并插入或更新目录树
+ */
+import {showMessage} from "siyuan";
+import {collectFailedPaths, collectFilePaths, collectFileSizes, pruneTree} from "./libs/tree";
+import {addDeletedEntries, diffManifest, listExcludedPaths, removeExcludedPaths} from "./libs/manifest";
+import {createTimestampId} from "./libs/id";
+import {UploadJob} from "./libs/journal";
+import {UploadTask, updateProgress, offerRetry} from "./libs/upload-queue";
+import {OutputFormat} from "./libs/render";
+import {flushTransaction, getBlockByID, getBlockAttrs, sql, updateBlock} from "./api";
+import {isMarkdownFile, getFileName, isDirectory, toFileUrl} from "./files";
+import {PluginContext} from "./context";
+import {ATTR_LINKS_ONLY, ATTR_SOURCE, TreeOptions, DOC_URL_PREFIX} from "./tree-output";
+
+// 上传方式：assets 逐个上传文件；archive 打包为单个 ZIP 资源；links 不上传，只链接本地文件
+export type UploadMode = "assets" | "archive" | "links";
+
+export class FolderUploader {
+    private plugin: PluginContext;
+
+    constructor(plugin: PluginContext) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * 将文件夹上传加入队列；重试中断过的任务时从任务日志继续，不再重新上传已完成的文件
+     * @param dirPath 目录路径
+     * @param blockId 目标块 ID
+     * @param extraPatterns 本次上传额外的忽略模式
+     * @param mode 上传方式
+     * @param format 输出格式（省略时使用设置中的默认格式）
+     */
+    queueFolderUpload(
+        dirPath: string,
+        blockId: string,
+        extraPatterns: string[] = [],
+        mode: UploadMode = "assets",
+        format?: OutputFormat
+    ): void {
+        this.plugin.uploadQueue.add(getFileName(dirPath), task => task.record
+            ? this.plugin.jobs.resumeJob(task, task.record)
+            : this.uploadAndInsert(task, dirPath, blockId, extraPatterns, mode, format)
+        );
+    }
+
+    /**
+     * 将仅链接上传加入队列：目标文档中已有同一目录的仅链接目录树时原地刷新，不再插入第二棵
+     * @param dirPath 目录路径
+     * @param blockId 目标块 ID
+     */
+    async queueLinksUpload(dirPath: string, blockId: string): Promise<void> {
+        const treeBlockId = await this.findLinksOnlyTree(dirPath, blockId);
+        if (treeBlockId) {
+            this.plugin.uploadQueue.add(getFileName(dirPath), task => this.resyncFolder(task, treeBlockId));
+        } else {
+            this.queueFolderUpload(dirPath, blockId, [], "links");
+        }
+    }
+
+    /**
+     * 查找目标块所在文档中由同一目录生成的仅链接目录树
+     * @param dirPath 目录路径
+     * @param blockId 目标块 ID
+     * @returns 目录树块 ID，没有时返回 null
+     */
+    private async findLinksOnlyTree(dirPath: string, blockId: string): Promise<string | null> {
+        try {
+            await flushTransaction();
+            const rows: Array<{id: string}> = await sql(
+                `SELECT s.block_id AS id FROM attributes s`
+                + ` JOIN attributes l ON l.block_id = s.block_id AND l.name = '${ATTR_LINKS_ONLY}' AND l.value = 'true'`
+                + ` WHERE s.name = '${ATTR_SOURCE}' AND s.value = '${dirPath.replace(/'/g, "''")}'`
+                + ` AND s.root_id = (SELECT root_id FROM blocks WHERE id = '${blockId}') LIMIT 1`
+            );
+            return rows?.[0]?.id || null;
+        } catch (err) {
+            // 查询失败时按新目录树插入
+            this.plugin.logWarn(this.plugin.getErrorMessage(err));
+            return null;
+        }
+    }
+
+    /**
+     * 上传文件夹并插入到编辑器（核心流程）
+     * 流程：1.扫描目录 2.预览选择 3.批量上传 4.回填URL 5.插入markdown
+     * @param task 上传任务
+     * @param dirPath 目录路径
+     * @param blockId 目标块 ID
+     * @param extraPatterns 本次上传额外的忽略模式
+     * @param mode 上传方式
+     * @param format 输出格式（省略时使用设置中的默认格式，预览对话框中可以再修改）
+     */
+    private async uploadAndInsert(
+        task: UploadTask,
+        dirPath: string,
+        blockId: string,
+        extraPatterns: string[] = [],
+        mode: UploadMode = "assets",
+        format: OutputFormat = this.plugin.settings.outputFormat
+    ) {
+        const startTime = Date.now();
+        const signal = task.controller.signal;
+        let finished = false;
+
+        try {
+            showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.upload.scanning}`);
+            const scanContext = this.plugin.scanner.createScanContext(task, dirPath, extraPatterns, mode === "links");
+            let {tree, filePaths} = await this.plugin.scanner.buildDirectoryTree(dirPath, 0, scanContext);
+            if (signal.aborted) {
+                return;
+            }
+            const skippedNote = scanContext.skipped > 0
+                ? this.plugin.i18n.upload.skipped.replace('${skipped}', String(scanContext.skipped))
+                : "";
+
+            if (filePaths.length === 0) {
+                showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.upload.emptyFolder}`);
+                return;
+            }
+            if (mode !== "links" && filePaths.length >= this.plugin.settings.maxFiles) {
+                showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.error.tooManyFiles
+                    .replace('${maxFiles}', String(this.plugin.settings.maxFiles))
+                }`);
+                return;
+            }
+
+            let excluded: string[] = [];
+            if (this.plugin.settings.showPreview) {
+                const selection = await this.plugin.dialogs.showPreviewDialog(tree, getFileName(dirPath), format);
+                if (!selection || signal.aborted) {
+                    this.plugin.cancelTask(task);
+                    return;
+                }
+                format = selection.format;
+                excluded = listExcludedPaths(tree, selection.excluded);
+                tree = pruneTree(tree, selection.excluded);
+                filePaths = collectFilePaths(tree);
+                if (filePaths.length === 0) {
+                    showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.upload.emptyFolder}`);
+                    return;
+                }
+            }
+
+            showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.upload.foundFiles.replace('${count}', String(filePaths.length))}`);
+            const options: TreeOptions = {
+                extraPatterns,
+                assetsDir: this.plugin.settings.assetLayout === "mirror" && mode !== "links" ? this.plugin.uploader.createMirrorAssetsDir(dirPath) : null,
+                format,
+                archiveUrl: null,
+                markdownRoot: null,
+                linksOnly: mode === "links",
+                watch: false,
+                excluded,
+            };
+            let urlMap: Map<string, string>;
+            if (mode === "links") {
+                urlMap = new Map(filePaths.map(filePath => [filePath, toFileUrl(filePath)]));
+            } else if (mode === "archive") {
+                ({archiveUrl: options.archiveUrl, urlMap} = await this.plugin.uploader.uploadArchive(task, tree, dirPath, options.assetsDir));
+            } else {
+                if (this.plugin.settings.importMarkdown && filePaths.some(isMarkdownFile)) {
+                    // Markdown 文件导入到当前文档下与文件夹同名的文档中，不作为资源上传
+                    const block = await getBlockByID(blockId);
+                    if (!block?.hpath) {
+                        throw new Error(this.plugin.i18n.importDocs.noDocument);
+                    }
+                    options.markdownRoot = await this.plugin.importer.uniqueHPath(block.box, `${block.hpath}/${getFileName(dirPath)}`);
+                }
+                const job: UploadJob = {
+                    id: createTimestampId(),
+                    dirPath,
+                    blockId,
+                    extraPatterns,
+                    assetsDir: options.assetsDir,
+                    format,
+                    markdownRoot: options.markdownRoot,
+                    files: filePaths,
+                    excluded,
+                    completed: {},
+                    pending: options.markdownRoot ? filePaths.filter(filePath => !isMarkdownFile(filePath)) : filePaths,
+                    uploaded: [],
+                    startedAt: Date.now(),
+                };
+                urlMap = await this.plugin.jobs.runUploadJob(task, job, tree);
+            }
+            if (signal.aborted) {
+                return;
+            }
+
+            await this.insertTree(task, tree, dirPath, blockId, options, urlMap);
+            finished = true;
+
+            const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+            const dedupedNote = task.deduped > 0
+                ? this.plugin.i18n.upload.deduped.replace('${count}', String(task.deduped))
+                : "";
+
+            if (mode === "links") {
+                showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.upload.linksInserted
+                    .replace('${count}', String(filePaths.length))
+                    .replace('${elapsed}', elapsed)
+                }${skippedNote}`);
+            } else if (task.failures.length > 0) {
+                const failedList = task.failures.map(f => `  - ${f}`).join('\n');
+                console.error(`[${this.plugin.name}] ${this.plugin.i18n.upload.failedFilesList.replace('${files}', failedList)}`);
+                showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.upload.partialFailed
+                    .replace('${success}', String(filePaths.length - task.failures.length))
+                    .replace('${total}', String(filePaths.length))
+                    .replace('${failed}', String(task.failures.length))
+                    .replace('${elapsed}', elapsed)
+                }${skippedNote}${dedupedNote}`);
+            } else {
+                showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.upload.success
+                    .replace('${count}', String(filePaths.length))
+                    .replace('${elapsed}', elapsed)
+                }${skippedNote}${dedupedNote}`);
+            }
+        } finally {
+            // 取消或出错时保留任务日志，重试任务或下次启动时可以继续或放弃
+            if (finished && task.record) {
+                await this.plugin.jobs.removeJob(task.record);
+                task.record = null;
+            }
+        }
+    }
+
+    /**
+     * 回填地址、插入目录树并保存块属性，有上传失败的文件时提供重试
+     * @param task 上传任务
+     * @param tree 目录树
+     * @param dirPath 源目录
+     * @param blockId 目标块 ID
+     * @param options 目录树生成选项
+     * @param urlMap 文件路径到地址的映射
+     */
+    async insertTree(
+        task: UploadTask,
+        tree: TreeNode[],
+        dirPath: string,
+        blockId: string,
+        options: TreeOptions,
+        urlMap: Map<string, string>
+    ): Promise<void> {
+        this.plugin.output.fillTreeUrls(tree, urlMap);
+
+        updateProgress(task, {phase: "inserting"});
+        const treeBlockId = await this.plugin.output.insertMarkdown(tree, dirPath, blockId, options);
+        if (treeBlockId) {
+            await this.plugin.output.saveTreeAttrs(treeBlockId, dirPath, tree, options);
+            this.offerTreeRetry(task, treeBlockId, dirPath, tree, options);
+        }
+        await this.plugin.jobs.saveHistory({
+            id: task.id,
+            kind: "tree",
+            title: task.title,
+            dirPath,
+            blockId,
+            treeBlockId,
+            // 继续的任务还包括中断前上传的资源
+            uploaded: [...new Set([...(task.record?.uploaded || []), ...task.uploaded])],
+            // Markdown 导入位置是本次新建的，删除它即可删除导入的全部文档（包括之后重新同步导入的）
+            docs: options.markdownRoot ? await this.plugin.jobs.findDocIds(blockId, options.markdownRoot) : [],
+            links: [],
+            failures: [...task.failures],
+            time: Date.now(),
+        });
+    }
+
+    /**
+     * 目录树中有上传失败的文件时提供重试（归档模式整个文件夹打包上传，只链接本地文件时没有上传，都不单独重试文件）
+     * @param task 上传任务
+     * @param treeBlockId 目录树块 ID
+     * @param dirPath 源目录
+     * @param tree 已插入的目录树
+     * @param options 目录树生成选项
+     */
+    private offerTreeRetry(task: UploadTask, treeBlockId: string, dirPath: string, tree: TreeNode[], options: TreeOptions): void {
+        if (options.archiveUrl || options.linksOnly) return;
+
+        // 导入为文档的 Markdown 文件不作为资源上传
+        const files = collectFailedPaths(tree)
+            .filter(filePath => !(options.markdownRoot && isMarkdownFile(filePath)));
+        if (files.length === 0) return;
+
+        offerRetry(task, files, retryTask =>
+            this.patchTreeFailures(retryTask, treeBlockId, dirPath, tree, options, files)
+        );
+    }
+
+    /**
+     * 只上传目录树中失败的文件，并原地更新已插入的目录树块
+     * @param task 重试任务
+     * @param treeBlockId 目录树块 ID
+     * @param dirPath 源目录
+     * @param tree 已插入的目录树
+     * @param options 目录树生成选项
+     * @param files 要重试的文件
+     */
+    private async patchTreeFailures(
+        task: UploadTask,
+        treeBlockId: string,
+        dirPath: string,
+        tree: TreeNode[],
+        options: TreeOptions,
+        files: string[]
+    ): Promise<void> {
+        const startTime = Date.now();
+        if (!await getBlockByID(treeBlockId)) {
+            throw new Error(this.plugin.i18n.error.unknownTarget);
+        }
+
+        updateProgress(task, {scanned: files.length});
+        const urlMap = await this.plugin.uploader.uploadFilesInBatches(task, files, collectFileSizes(tree), dirPath, options.assetsDir);
+        if (task.controller.signal.aborted) {
+            return;
+        }
+
+        this.plugin.output.fillTreeUrls(tree, urlMap);
+
+        updateProgress(task, {phase: "inserting"});
+        const {markdown, avID, existing} = await this.plugin.output.renderOutput(tree, getFileName(dirPath), options, treeBlockId);
+        if (!existing) {
+            await updateBlock("markdown", markdown, treeBlockId);
+        }
+        if (avID) {
+            await this.plugin.output.fillDatabase(avID, tree, existing);
+        }
+        // updateBlock 会覆盖块属性，需要重新写入
+        await this.plugin.output.saveTreeAttrs(treeBlockId, dirPath, tree, options);
+        this.offerTreeRetry(task, treeBlockId, dirPath, tree, options);
+
+        const entry = this.plugin.history.find(treeBlockId);
+        if (entry) {
+            await this.plugin.jobs.saveHistory({
+                ...entry,
+                uploaded: [...entry.uploaded, ...task.uploaded],
+                failures: [...task.failures],
+            });
+        }
+
+        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+        showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.upload.retried
+            .replace('${count}', String(urlMap.size))
+            .replace('${failed}', String(task.failures.length))
+            .replace('${elapsed}', elapsed)
+        }`);
+    }
+
+    /**
+     * 重新同步目录树：对比清单与磁盘，只上传新增或修改的文件，并原地更新目录树块
+     * 已删除的文件从目录树中移除；监视中的目录树保留这些条目并标记为已删除。
+     * 修改后重新上传的文件，原来的资源不再被任何块引用时删除。
+     * 后台任务（监视同步）只提示失败
+     * @param task 上传任务
+     * @param treeBlockId 目录树块 ID
+     */
+    async resyncFolder(task: UploadTask, treeBlockId: string) {
+        const startTime = Date.now();
+        const signal = task.controller.signal;
+
+        const attrs = await getBlockAttrs(treeBlockId) || {};
+        const dirPath = attrs[ATTR_SOURCE];
+        if (!dirPath || !isDirectory(dirPath)) {
+            throw new Error(this.plugin.i18n.resync.noSource.replace('${path}', dirPath || ""));
+        }
+        const validation = this.plugin.workspace.validatePath(dirPath);
+        if (!validation.valid) {
+            throw new Error(validation.error);
+        }
+
+        const options = this.plugin.output.readTreeOptions(attrs);
+        const scanContext = this.plugin.scanner.createScanContext(task, dirPath, options.extraPatterns, options.linksOnly);
+        const scanned = await this.plugin.scanner.buildDirectoryTree(dirPath, 0, scanContext);
+        if (signal.aborted) {
+            return;
+        }
+        // 上传时在预览中取消勾选的文件继续排除
+        const tree = removeExcludedPaths(scanned.tree, new Set(options.excluded));
+        const filePaths = collectFilePaths(tree);
+        if (!options.linksOnly && filePaths.length >= this.plugin.settings.maxFiles) {
+            showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.error.tooManyFiles
+                .replace('${maxFiles}', String(this.plugin.settings.maxFiles))
+            }`);
+            return;
+        }
+
+        const manifest = await this.plugin.manifests.load(treeBlockId);
+        const {reused, changed, removed, deleted, replaced} = diffManifest(tree, manifest);
+        if (changed.length === 0 && (options.watch ? removed : deleted).length === 0) {
+            if (!task.background) {
+                showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.resync.unchanged}`);
+            }
+            return;
+        }
+
+        // 镜像模式上传的目录树继续使用原来的资源目录；归档模式有任何变化都重新打包整个文件夹
+        const previousArchiveUrl = options.archiveUrl;
+        let uploaded: Map<string, string>;
+        if (options.linksOnly) {
+            uploaded = new Map(changed.map(filePath => [filePath, toFileUrl(filePath)]));
+        } else if (options.archiveUrl) {
+            ({archiveUrl: options.archiveUrl, urlMap: uploaded} = await this.plugin.uploader.uploadArchive(task, tree, dirPath, options.assetsDir));
+            reused.clear();
+        } else if (options.markdownRoot) {
+            const changedMarkdown = changed.filter(isMarkdownFile);
+            uploaded = await this.plugin.uploader.uploadFilesInBatches(
+                task,
+                changed.filter(filePath => !isMarkdownFile(filePath)),
+                collectFileSizes(tree),
+                dirPath,
+                options.assetsDir
+            );
+            if (!signal.aborted) {
+                const {imports, knownDocs} = this.plugin.importer.planMarkdownResync(
+                    changedMarkdown, reused, manifest, dirPath, options.markdownRoot
+                );
+                const docUrls = await this.plugin.importer.importMarkdownForTree(
+                    task, treeBlockId, imports, new Map([...reused, ...uploaded]), knownDocs
+                );
+                docUrls.forEach((url, filePath) => uploaded.set(filePath, url));
+            }
+        } else {
+            uploaded = await this.plugin.uploader.uploadFilesInBatches(task, changed, collectFileSizes(tree), dirPath, options.assetsDir);
+        }
+        if (signal.aborted) {
+            return;
+        }
+
+        this.plugin.output.fillTreeUrls(tree, new Map([...reused, ...uploaded]));
+        if (options.watch) {
+            addDeletedEntries(tree, deleted);
+        }
+
+        updateProgress(task, {phase: "inserting"});
+        const {markdown, avID, existing} = await this.plugin.output.renderOutput(tree, getFileName(dirPath), options, treeBlockId);
+        if (!existing) {
+            await updateBlock("markdown", markdown, treeBlockId);
+        }
+        if (avID) {
+            await this.plugin.output.fillDatabase(avID, tree, existing);
+        }
+        // updateBlock 会覆盖块属性，需要重新写入
+        await this.plugin.output.saveTreeAttrs(treeBlockId, dirPath, tree, options);
+        this.offerTreeRetry(task, treeBlockId, dirPath, tree, options);
+
+        // 修改后重新上传的文件（归档模式为整个压缩包）原来的资源；导入的文档和本地链接不需要清理
+        let stale: string[] = [];
+        if (options.archiveUrl) {
+            stale = previousArchiveUrl && previousArchiveUrl !== options.archiveUrl ? [previousArchiveUrl] : [];
+        } else if (!options.linksOnly) {
+            stale = replaced.filter(url => !url.startsWith(DOC_URL_PREFIX));
+        }
+        if (stale.length > 0) {
+            // 等待块更新写入数据库后再检查资源引用
+            await flushTransaction();
+            await this.plugin.uploader.removeUnusedAssets(stale);
+        }
+
+        // 新上传的资源记入目录树的上传历史，撤销时一并删除；被替换的资源不再属于目录树
+        const entry = this.plugin.history.find(treeBlockId);
+        if (entry) {
+            await this.plugin.jobs.saveHistory({
+                ...entry,
+                uploaded: [...new Set([...entry.uploaded.filter(url => !stale.includes(url)), ...task.uploaded])],
+                failures: [...task.failures],
+            });
+        }
+
+        if (task.background) {
+            if (task.failures.length > 0) {
+                showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.watch.syncFailed
+                    .replace('${fileName}', getFileName(dirPath))
+                    .replace('${failed}', String(task.failures.length))
+                }`);
+            }
+            return;
+        }
+        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+        if (options.linksOnly) {
+            showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.resync.linksRefreshed
+                .replace('${changed}', String(changed.length))
+                .replace('${removed}', String(removed.length))
+                .replace('${elapsed}', elapsed)
+            }`);
+            return;
+        }
+        showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.resync.success
+            .replace('${uploaded}', String(uploaded.size))
+            .replace('${reused}', String(reused.size))
+            .replace('${removed}', String(removed.length))
+            .replace('${failed}', String(task.failures.length))
+            .replace('${elapsed}', elapsed)
+        }`);
+    }
+}
@@ -1,182 +1,447 @@
-import {Plugin, showMessage, fetchSyncPost, IMenuBaseDetail} from "siyuan";
-
-// 国际化接口定义
-interface II18n {
-    pluginLoaded: string;
-    pluginUnloaded: string;
-    uploadCanceled: string;
-    error: {
-        workspacePath: string;
-        depthExceeded: string;
-        pathTraversal: string;
-        pathEmpty: string;
-        workspaceAncestor: string;
-        workspaceFile: string;
-        handleLink: string;
-        noBlockId: string;
-        folderOnly: string;
-        fileNotExist: string;
-        handleFolder: string;
-        fileTooLarge: string;
-        cannotRead: string;
-        readFileFailed: string;
-        batchUploadFailed: string;
-        uploadFailed: string;
-        insertFailed: string;
-        unknownTarget: string;
-        tooManyFiles: string;
-    };
-    upload: {
-        label: string;
-        scanning: string;
-        emptyFolder: string;
-        foundFiles: string;
-        success: string;
-        partialFailed: string;
-        failedFilesList: string;
-    };
-    workspaceInitFailed: string;
-}
-
-const BATCH_SIZE = 10;                      // 每批上传的文件数量
-const ASSETS_DIR = "/assets/";                // 思源资源目录路径
-const MAX_DEPTH = 9;                          // 最大目录深度限制
-const MAX_FILE_SIZE = 100 * 1024 * 1024;     // 单个文件大小限制（100MB）
-const MAX_FILES = 1000;                       // 最大文件数量限制
+import {Plugin, showMessage, confirm, getAllEditor, IMenuBaseDetail, IEventBusMap, IProtyle} from "siyuan";
+import {SettingUtils} from "./libs/setting-utils";
+import {parsePatterns} from "./libs/ignore";
+import {inputDialogSync} from "./libs/dialog";
+import {ManifestStore} from "./libs/manifest-store";
+import {AssetHashIndex} from "./libs/asset-index";
+import {UploadJournal} from "./libs/journal";
+import {UploadHistory} from "./libs/history";
+import {UploadQueue, UploadTask, updateProgress} from "./libs/upload-queue";
+import {DEFAULT_ICONS, IconMap, parseIconMap} from "./libs/icons";
+import {DEFAULT_ITEM_TEMPLATE, OUTPUT_FORMATS} from "./libs/render";
+import UploadQueueDock from "./components/upload-queue.svelte";
+import {HREF_ATTR, BLOCK_ID_ATTR, findBlockId, findSelectionBlockId} from "./libs/dom";
+import {IPluginSettings, NumericSettingKey, DEFAULT_SETTINGS, SETTING_RANGES, parseOutputFormat} from "./settings";
+import {
+    FILE_PROTOCOL,
+    getFileName,
+    clearCache,
+    isDirectory,
+    toFileUrl,
+    getLocalFilePath,
+    Workspace,
+} from "./files";
+import {PluginContext, II18n} from "./context";
+import {FolderScanner} from "./scanner";
+import {AssetUploader} from "./uploader";
+import {TreeOutput, ATTR_WATCH, ATTR_SOURCE} from "./tree-output";
+import {MarkdownImporter} from "./markdown-import";
+import {LocalFileUploader} from "./local-files";
+import {FolderUploader} from "./folder-upload";
+import {UploadJobs} from "./jobs";
+import {FolderWatcher} from "./watcher";
+import {UploadDialogs} from "./dialogs";
+
+const SETTINGS_NAME = "settings";             // 设置存储文件名
+const QUEUE_DOCK_TYPE = "upload-queue";       // 上传队列停靠栏类型
 
 // 通过 window.require 获取 Node.js 模块（思源插件环境限制）
 const fs = window.require('fs');
-const path = window.require('path');
-
-// 常量定义
-const FILE_PROTOCOL = "file://";
-const HREF_ATTR = "data-href";
-const BLOCK_ID_ATTR = "data-node-id";
-const HIDDEN_DIRS = new Set(['node_modules', '.git', '.vscode', '.idea']);
-
-// 目录树节点接口
-interface TreeNode {
-    name: string;                              // 文件/目录名
-    type: "file" | "directory" | "symlink";    // 节点类型
-    filePath?: string;                         // 文件完整路径（遍历时填充）
-    url?: string;                              // 上传后的 URL（上传后填充）
-    children?: TreeNode[];                     // 子节点（目录类型）
-    linkTarget?: string;                       // 符号链接目标路径
-}
-
-type FilterFn = (name: string) => boolean;
-
-// 默认文件过滤器：跳过隐藏文件和系统目录
-const defaultFilter: FilterFn = (name) => {
-    if (name.startsWith('.') || name.startsWith('~')) return false;
-    return !HIDDEN_DIRS.has(name);
-};
-
-// 文件名缓存：避免重复计算 basename（性能优化）
-const fileNameCache = new Map<string, string>();
-
-/**
- * 获取文件名（带缓存）
- * @param filePath 文件完整路径
- * @returns 文件名
- */
-function getFileName(filePath: string): string {
-    let name = fileNameCache.get(filePath);
-    if (!name) {
-        name = path.basename(filePath);
-        fileNameCache.set(filePath, name);
-    }
-    return name;
-}
+const electron = window.require('electron');
 
-/** 清理缓存（操作完成后调用，释放内存） */
-function clearCache() {
-    fileNameCache.clear();
-}
+// 思源主进程的通用调用通道（showOpenDialog 等）
+const SIYUAN_IPC_GET = "siyuan-get";
 
 // 思源笔记插件主类
-export default class NFPlugin extends Plugin{
+export default class NFPlugin extends Plugin implements PluginContext {
     // @ts-ignore - i18n 由思源运行时注入
     declare i18n: II18n;
 
-    private siyuanWorkspaceDir: string | null = null;        // 思源工作目录原始路径
-    private normalizedWorkspaceDir: string | null = null;    // 规范化后的工作目录路径（缓存）
-    private uploadAbortController: AbortController | null = null;  // 用于取消上传
-    private failedFiles: string[] = [];                       // 记录失败的文件列表
+    uploadQueue: UploadQueue;                                 // 上传队列
+    private queueDock: UploadQueueDock | null = null;         // 队列停靠栏组件
+    assetIndex: AssetHashIndex;                               // 资源内容哈希索引
+    journal: UploadJournal;                                   // 上传任务日志
+    history: UploadHistory;                                   // 上传历史
+    private settingUtils: SettingUtils;                       // 设置面板
+    settings: IPluginSettings = {...DEFAULT_SETTINGS};        // 当前生效的设置
+    icons: IconMap = DEFAULT_ICONS;                           // 默认图标与自定义图标合并后的映射
+    manifests: ManifestStore;                                 // 目录树的上传清单
+    private dropTargets = new Set<HTMLElement>();             // 已监听拖放的编辑区元素
+    readonly workspace = new Workspace(this);                 // 思源工作空间（路径校验）
+    readonly scanner = new FolderScanner(this);               // 目录扫描
+    readonly uploader = new AssetUploader(this);              // 资源上传
+    readonly output = new TreeOutput(this);                   // 目录树的生成、插入与块属性
+    readonly importer = new MarkdownImporter(this);           // Markdown 文件导入为文档
+    readonly localFiles = new LocalFileUploader(this);        // 文档中本地文件链接的上传
+    readonly folders = new FolderUploader(this);              // 文件夹上传与重新同步
+    readonly jobs = new UploadJobs(this);                     // 任务日志与上传历史
+    readonly watcher = new FolderWatcher(this);               // 源目录监视
+    readonly dialogs = new UploadDialogs(this);               // 进度面板与对话框
 
     /** 插件加载入口 */
     async onload() {
         this.eventBus.on("open-menu-link", this.handleOpenMenuLink.bind(this));
-        this.initSiyuanWorkspaceDir();
+        this.eventBus.on("click-blockicon", this.handleClickBlockIcon);
+        this.eventBus.on("paste", this.handlePaste);
+        this.eventBus.on("loaded-protyle-static", this.handleProtyleLoaded);
+        this.eventBus.on("destroy-protyle", this.handleProtyleDestroyed);
+        this.workspace.initSiyuanWorkspaceDir();
+        await this.initSettings();
+        await this.initAssetIndex();
+        await this.initJournal();
+        await this.initHistory();
+        this.manifests = new ManifestStore(this as unknown as Plugin);
+        this.initQueue();
+        this.initCommands();
+        await this.watcher.restoreWatches();
     }
 
-    /** 初始化思源工作目录 */
-    private initSiyuanWorkspaceDir(): void {
-        try {
-            if (window.siyuan?.config?.system?.workspaceDir) {
-                this.siyuanWorkspaceDir = window.siyuan.config.system.workspaceDir;
-                this.normalizedWorkspaceDir = path.normalize(this.siyuanWorkspaceDir);
-            }
-        } catch (err) {
-            console.warn(this.i18n.workspaceInitFailed.replace('${error}', String(err)));
+    /** 界面就绪后监听已打开编辑器的拖放，并提示未完成的上传任务 */
+    onLayoutReady() {
+        getAllEditor().forEach(editor => this.listenDrop(editor.protyle));
+        if (this.journal.list().length > 0) {
+            this.dialogs.showUnfinishedJobsDialog();
         }
     }
 
-    /**
-     * 检查路径是否在思源工作目录下
-     * @param filePath 待检查的文件路径
-     * @returns 是否在工作目录内
-     */
-    private isInSiyuanWorkspace(filePath: string): boolean {
-        if (!this.normalizedWorkspaceDir) return false;
-        const normalizedPath = path.normalize(filePath);
-        return normalizedPath.startsWith(this.normalizedWorkspaceDir + path.sep);
+    /** 创建上传队列并添加队列停靠栏 */
+    private initQueue(): void {
+        this.uploadQueue = new UploadQueue(this.settings.queueConcurrency, {
+            onStart: (task) => {
+                if (!task.background) this.dialogs.openProgressPanel(task);
+            },
+            onFinish: (task, err) => this.handleTaskFinish(task, err),
+        });
+
+        this.addDock({
+            config: {
+                position: "RightBottom",
+                size: {width: 300, height: 0},
+                icon: "iconUpload",
+                title: this.i18n.queue.title,
+            },
+            data: {},
+            type: QUEUE_DOCK_TYPE,
+            init: (dock) => {
+                this.queueDock = new UploadQueueDock({
+                    target: dock.element,
+                    props: {
+                        tasks: this.uploadQueue.list,
+                        i18n: this.i18n.queue,
+                        phases: this.i18n.progress,
+                        cancel: (task: UploadTask) => this.cancelTask(task),
+                        retry: (task: UploadTask) => this.uploadQueue.retry(task.id),
+                        retryFailed: (task: UploadTask) => this.retryFailedFiles(task),
+                        clear: () => this.uploadQueue.clearFinished(),
+                        showHistory: () => this.dialogs.showHistoryDialog(),
+                    },
+                });
+            },
+            destroy: () => {
+                this.queueDock?.$destroy();
+                this.queueDock = null;
+            },
+        });
     }
 
-    /**
-     * 检查路径是否为思源工作目录的祖先目录（防止上传父目录或工作目录本身）
-     * @param filePath 待检查的文件路径
-     * @returns 是否为工作目录的祖先
-     */
-    private isAncestorOfSiyuanWorkspace(filePath: string): boolean {
-        if (!this.normalizedWorkspaceDir) return false;
-        const normalizedPath = path.normalize(filePath);
-        return this.normalizedWorkspaceDir.startsWith(normalizedPath + path.sep) ||
-               normalizedPath === this.normalizedWorkspaceDir;
+    /** 注册斜杠菜单项和命令：选择本地文件夹上传并在当前块之后插入目录树；打开上传历史 */
+    private initCommands(): void {
+        this.protyleSlash = [{
+            filter: ["insert local folder tree", "插入本地文件夹目录树", "crbdwjjmls"],
+            html: `<div class="b3-list-item__first"><svg class="b3-list-item__graphic"><use xlink:href="#iconFolder"></use></svg><span class="b3-list-item__text">${this.i18n.insertFolderTree}</span></div>`,
+            id: "insertFolderTree",
+            callback: (_protyle, nodeElement) => {
+                this.pickFolder(nodeElement.getAttribute(BLOCK_ID_ATTR)).catch(this.showPickFolderError);
+            },
+        }];
+
+        this.addCommand({
+            langKey: "insertFolderTree",
+            hotkey: "⌥⇧U",
+            editorCallback: (protyle) => {
+                this.pickFolder(findSelectionBlockId(protyle)).catch(this.showPickFolderError);
+            },
+        });
+        this.addCommand({
+            langKey: "uploadHistory",
+            hotkey: "",
+            callback: () => this.dialogs.showHistoryDialog(),
+        });
     }
 
     /**
-     * 安全验证：检查路径是否包含路径遍历攻击 (../)
-     * @param filePath 待检查的文件路径
-     * @returns 是否包含路径遍历字符
+     * 任务结束：同步进度阶段，提示错误，全部成功时自动关闭进度面板
+     * @param task 已结束的上传任务
+     * @param err 任务失败时的错误
      */
-    private hasPathTraversal(filePath: string): boolean {
-        return filePath.includes('..');
+    private handleTaskFinish(task: UploadTask, err?: unknown): void {
+        if (task.background) {
+            this.watcher.finishWatchSync(task);
+        }
+        // 提前结束（空目录、超出限制、出错）时也要让进度退出运行状态
+        updateProgress(task, {phase: task.state === "canceled" ? "canceled" : "done"});
+        if (task.state === "failed") {
+            showMessage(`[${this.name}]: ${this.getErrorMessage(err)}`);
+        }
+        if (!this.uploadQueue.busy) {
+            clearCache();
+        }
+        this.dialogs.scheduleProgressPanelClose(task);
     }
 
     /**
-     * 综合路径验证（安全检查）
-     * @param filePath 待验证的文件路径
-     * @returns 验证结果
+     * 取消任务
+     * @param task 上传任务
      */
-    private validatePath(filePath: string): {valid: boolean, error?: string} {
-        if (this.hasPathTraversal(filePath)) {
-            return {valid: false, error: this.i18n.error.pathTraversal};
+    cancelTask(task: UploadTask): void {
+        if (this.uploadQueue.cancel(task.id)) {
+            showMessage(`[${this.name}]: ${this.i18n.uploadCanceled}`);
         }
+    }
 
-        if (!filePath || filePath.trim() === '') {
-            return {valid: false, error: this.i18n.error.pathEmpty};
+    /** 加载上传任务日志 */
+    private async initJournal(): Promise<void> {
+        this.journal = new UploadJournal(this as unknown as Plugin);
+        try {
+            await this.journal.load();
+        } catch (err) {
+            this.logWarn(this.getErrorMessage(err));
+        }
+    }
+
+    /** 加载上传历史 */
+    private async initHistory(): Promise<void> {
+        this.history = new UploadHistory(this as unknown as Plugin);
+        try {
+            await this.history.load();
+        } catch (err) {
+            this.logWarn(this.getErrorMessage(err));
+        }
+    }
+
+    /** 加载资源哈希索引 */
+    private async initAssetIndex(): Promise<void> {
+        this.assetIndex = new AssetHashIndex(this as unknown as Plugin);
+        try {
+            await this.assetIndex.load();
+        } catch (err) {
+            this.logWarn(this.getErrorMessage(err));
+        }
+    }
+
+    /** 扫描思源资源目录重建哈希索引（设置面板按钮调用） */
+    private async rebuildAssetIndex(): Promise<void> {
+        showMessage(`[${this.name}]: ${this.i18n.setting.rebuildIndexRunning}`);
+        try {
+            const count = await this.assetIndex.rebuild();
+            showMessage(`[${this.name}]: ${this.i18n.setting.rebuildIndexDone.replace('${count}', String(count))}`);
+        } catch (err) {
+            showMessage(`[${this.name}]: ${this.i18n.setting.rebuildIndexFailed
+                .replace('${error}', this.getErrorMessage(err))
+            }`);
+        }
+    }
+
+    /** 初始化设置面板并加载已保存的设置 */
+    private async initSettings(): Promise<void> {
+        this.settingUtils = new SettingUtils({
+            plugin: this as unknown as Plugin,    // i18n 为自定义结构，与 Plugin 声明的 IObject 不兼容
+            name: SETTINGS_NAME,
+            callback: (data: Record<string, unknown>) => this.applySettings(true, data),
+        });
+
+        const numberItems: Array<[NumericSettingKey, string, string]> = [
+            ["batchSize", this.i18n.setting.batchSize, this.i18n.setting.batchSizeDesc],
+            ["batchBytes", this.i18n.setting.batchBytes, this.i18n.setting.batchBytesDesc],
+            ["maxDepth", this.i18n.setting.maxDepth, this.i18n.setting.maxDepthDesc],
+            ["maxFileSize", this.i18n.setting.maxFileSize, this.i18n.setting.maxFileSizeDesc],
+            ["maxFiles", this.i18n.setting.maxFiles, this.i18n.setting.maxFilesDesc],
+            ["queueConcurrency", this.i18n.setting.queueConcurrency, this.i18n.setting.queueConcurrencyDesc],
+            ["embedImageMaxSize", this.i18n.setting.embedImageMaxSize, this.i18n.setting.embedImageMaxSizeDesc],
+            ["embedCodeMaxSize", this.i18n.setting.embedCodeMaxSize, this.i18n.setting.embedCodeMaxSizeDesc],
+        ];
+        for (const [key, title, description] of numberItems) {
+            const [min, max] = SETTING_RANGES[key];
+            this.settingUtils.addItem({
+                key,
+                value: DEFAULT_SETTINGS[key],
+                type: "number",
+                title,
+                description: description
+                    .replace('${min}', String(min))
+                    .replace('${max}', String(max)),
+            });
+        }
+        this.settingUtils.addItem({
+            key: "hiddenDirs",
+            value: DEFAULT_SETTINGS.hiddenDirs,
+            type: "textinput",
+            title: this.i18n.setting.hiddenDirs,
+            description: this.i18n.setting.hiddenDirsDesc,
+        });
+        this.settingUtils.addItem({
+            key: "ignorePatterns",
+            value: DEFAULT_SETTINGS.ignorePatterns,
+            type: "textarea",
+            title: this.i18n.setting.ignorePatterns,
+            description: this.i18n.setting.ignorePatternsDesc,
+            direction: "row",
+        });
+        this.settingUtils.addItem({
+            key: "useIgnoreFiles",
+            value: DEFAULT_SETTINGS.useIgnoreFiles,
+            type: "checkbox",
+            title: this.i18n.setting.useIgnoreFiles,
+            description: this.i18n.setting.useIgnoreFilesDesc,
+        });
+        this.settingUtils.addItem({
+            key: "showPreview",
+            value: DEFAULT_SETTINGS.showPreview,
+            type: "checkbox",
+            title: this.i18n.setting.showPreview,
+            description: this.i18n.setting.showPreviewDesc,
+        });
+        this.settingUtils.addItem({
+            key: "dedupe",
+            value: DEFAULT_SETTINGS.dedupe,
+            type: "checkbox",
+            title: this.i18n.setting.dedupe,
+            description: this.i18n.setting.dedupeDesc,
+        });
+        this.settingUtils.addItem({
+            key: "assetLayout",
+            value: DEFAULT_SETTINGS.assetLayout,
+            type: "select",
+            title: this.i18n.setting.assetLayout,
+            description: this.i18n.setting.assetLayoutDesc,
+            options: {
+                flat: this.i18n.setting.assetLayoutFlat,
+                mirror: this.i18n.setting.assetLayoutMirror,
+            },
+        });
+        this.settingUtils.addItem({
+            key: "symlinkPolicy",
+            value: DEFAULT_SETTINGS.symlinkPolicy,
+            type: "select",
+            title: this.i18n.setting.symlinkPolicy,
+            description: this.i18n.setting.symlinkPolicyDesc,
+            options: {
+                skip: this.i18n.setting.symlinkSkip,
+                record: this.i18n.setting.symlinkRecord,
+                follow: this.i18n.setting.symlinkFollow,
+            },
+        });
+        this.settingUtils.addItem({
+            key: "outputFormat",
+            value: DEFAULT_SETTINGS.outputFormat,
+            type: "select",
+            title: this.i18n.setting.outputFormat,
+            description: this.i18n.setting.outputFormatDesc,
+            options: this.i18n.format,
+        });
+        this.settingUtils.addItem({
+            key: "itemTemplate",
+            value: DEFAULT_SETTINGS.itemTemplate,
+            type: "textinput",
+            title: this.i18n.setting.itemTemplate,
+            description: this.i18n.setting.itemTemplateDesc,
+        });
+        this.settingUtils.addItem({
+            key: "iconMap",
+            value: DEFAULT_SETTINGS.iconMap,
+            type: "textarea",
+            title: this.i18n.setting.iconMap,
+            description: this.i18n.setting.iconMapDesc,
+            direction: "row",
+        });
+        for (const key of ["embedImages", "embedMedia", "embedCode"] as const) {
+            this.settingUtils.addItem({
+                key,
+                value: DEFAULT_SETTINGS[key],
+                type: "checkbox",
+                title: this.i18n.setting[key],
+                description: this.i18n.setting[`${key}Desc`],
+            });
         }
+        this.settingUtils.addItem({
+            key: "importMarkdown",
+            value: DEFAULT_SETTINGS.importMarkdown,
+            type: "checkbox",
+            title: this.i18n.setting.importMarkdown,
+            description: this.i18n.setting.importMarkdownDesc,
+        });
+        this.settingUtils.addItem({
+            key: "rebuildIndex",
+            value: "",
+            type: "button",
+            title: this.i18n.setting.rebuildIndex,
+            description: this.i18n.setting.rebuildIndexDesc,
+            button: {
+                label: this.i18n.setting.rebuildIndexButton,
+                callback: () => this.rebuildAssetIndex(),
+            },
+        });
 
-        if (this.isAncestorOfSiyuanWorkspace(filePath)) {
-            return {valid: false, error: this.i18n.error.workspaceAncestor};
+        try {
+            await this.settingUtils.load();
+        } catch (err) {
+            this.logWarn(this.getErrorMessage(err));
         }
+        this.applySettings(false);
+    }
 
-        if (this.isInSiyuanWorkspace(filePath)) {
-            return {valid: false, error: this.i18n.error.workspaceFile};
+    /**
+     * 校验设置项并同步到 this.settings（超出范围的数值会被修正回面板）
+     * @param notify 是否提示被修正的设置项
+     * @param data 设置面板确认时即将保存的数据，修正后的数值同步写入其中
+     */
+    private applySettings(notify: boolean, data?: Record<string, unknown>): void {
+        const titles: Record<NumericSettingKey, string> = {
+            batchSize: this.i18n.setting.batchSize,
+            batchBytes: this.i18n.setting.batchBytes,
+            maxDepth: this.i18n.setting.maxDepth,
+            maxFileSize: this.i18n.setting.maxFileSize,
+            maxFiles: this.i18n.setting.maxFiles,
+            queueConcurrency: this.i18n.setting.queueConcurrency,
+            embedImageMaxSize: this.i18n.setting.embedImageMaxSize,
+            embedCodeMaxSize: this.i18n.setting.embedCodeMaxSize,
+        };
+
+        for (const key of Object.keys(SETTING_RANGES) as NumericSettingKey[]) {
+            const [min, max] = SETTING_RANGES[key];
+            const raw = Number(this.settingUtils.get(key));
+            const value = Number.isFinite(raw)
+                ? Math.min(max, Math.max(min, Math.floor(raw)))
+                : DEFAULT_SETTINGS[key];
+
+            if (value !== raw) {
+                this.settingUtils.set(key, value);
+                if (data) {
+                    data[key] = value;
+                }
+                if (notify) {
+                    showMessage(`[${this.name}]: ${this.i18n.setting.outOfRange
+                        .replace('${title}', titles[key])
+                        .replace('${min}', String(min))
+                        .replace('${max}', String(max))
+                        .replace('${value}', String(value))
+                    }`);
+                }
+            }
+            this.settings[key] = value;
         }
 
-        return {valid: true};
+        this.settings.hiddenDirs = String(this.settingUtils.get("hiddenDirs") ?? DEFAULT_SETTINGS.hiddenDirs);
+        this.settings.ignorePatterns = String(this.settingUtils.get("ignorePatterns") ?? "");
+        this.settings.useIgnoreFiles = Boolean(this.settingUtils.get("useIgnoreFiles"));
+        this.settings.showPreview = Boolean(this.settingUtils.get("showPreview"));
+        this.settings.dedupe = Boolean(this.settingUtils.get("dedupe"));
+        this.settings.importMarkdown = Boolean(this.settingUtils.get("importMarkdown"));
+        this.settings.assetLayout = this.settingUtils.get("assetLayout") === "mirror" ? "mirror" : "flat";
+        const symlinkPolicy = this.settingUtils.get("symlinkPolicy");
+        this.settings.symlinkPolicy = symlinkPolicy === "record" || symlinkPolicy === "follow" ? symlinkPolicy : "skip";
+        this.settings.outputFormat = parseOutputFormat(this.settingUtils.get("outputFormat"));
+        this.settings.itemTemplate = String(this.settingUtils.get("itemTemplate") || "").trim() || DEFAULT_ITEM_TEMPLATE;
+        this.settings.iconMap = String(this.settingUtils.get("iconMap") ?? "");
+        this.settings.embedImages = Boolean(this.settingUtils.get("embedImages"));
+        this.settings.embedMedia = Boolean(this.settingUtils.get("embedMedia"));
+        this.settings.embedCode = Boolean(this.settingUtils.get("embedCode"));
+        const {icons, invalid} = parseIconMap(this.settings.iconMap);
+        this.icons = {...DEFAULT_ICONS, ...icons};
+        if (notify && invalid.length > 0) {
+            showMessage(`[${this.name}]: ${this.i18n.setting.iconMapInvalid.replace('${lines}', invalid.join(", "))}`);
+        }
+        this.uploadQueue?.setConcurrency(this.settings.queueConcurrency);
     }
 
     /** 处理链接菜单打开事件（思源事件监听） */
@@ -197,7 +462,7 @@ export default class NFPlugin extends Plugin{
     };
 
     /**
-     * 验证文件路径并添加上传菜单项
+     * 验证文件路径并添加上传菜单项（文件夹上传为目录树，单个文件原地替换链接）
      * @param filePath 文件路径
      * @param element DOM 元素
      * @param menu 菜单对象
@@ -205,509 +470,328 @@ export default class NFPlugin extends Plugin{
      */
     private isValidFilePath(filePath: string, element: HTMLElement, menu: any): boolean {
         const fileName = getFileName(filePath);
-        const blockId = this.findBlockId(element);
+        const blockId = findBlockId(element);
 
         if (!blockId) {
             this.logError(this.i18n.error.noBlockId);
             return false;
         }
-        if (!this.isDirectory(filePath)) {
-            this.logError(this.i18n.error.folderOnly);
-            return false;
-        }
 
         if (!fs.existsSync(filePath)) {
             this.logError(this.i18n.error.fileNotExist.replace('${fileName}', fileName));
             return false;
         }
 
-        const validation = this.validatePath(filePath);
+        const validation = this.workspace.validatePath(filePath);
         if (!validation.valid) {
             this.logError(validation.error);
             return false;
         }
 
+        if (!isDirectory(filePath)) {
+            const href = element.getAttribute(HREF_ATTR);
+            menu.addItem({
+                icon: "iconUpload",
+                label: this.i18n.file.label.replace('${fileName}', fileName),
+                click: () => {
+                    this.uploadQueue.add(fileName, task => this.localFiles.uploadLocalFiles(task, [{href, filePath, blockId}]));
+                },
+            });
+            return true;
+        }
+
         menu.addItem({
             icon: "iconUpload",
             label: this.i18n.upload.label.replace('${fileName}', fileName),
-            click: () => this.uploadAndInsert(filePath, blockId),
+            click: () => this.folders.queueFolderUpload(filePath, blockId),
+        });
+        menu.addItem({
+            icon: "iconList",
+            label: this.i18n.upload.labelFormat.replace('${fileName}', fileName),
+            submenu: OUTPUT_FORMATS.map(format => ({
+                label: this.i18n.format[format],
+                current: format === this.settings.outputFormat,
+                click: () => this.folders.queueFolderUpload(filePath, blockId, [], "assets", format),
+            })),
+        });
+        menu.addItem({
+            icon: "iconFilter",
+            label: this.i18n.upload.labelWithFilters.replace('${fileName}', fileName),
+            click: () => this.uploadWithFilters(filePath, blockId),
+        });
+        menu.addItem({
+            icon: "iconFiles",
+            label: this.i18n.importDocs.label.replace('${fileName}', fileName),
+            click: () => {
+                this.uploadQueue.add(fileName, task =>
+                    this.importer.importAsDocuments(task, filePath, blockId, element.getAttribute(HREF_ATTR))
+                );
+            },
+        });
+        menu.addItem({
+            icon: "iconZip",
+            label: this.i18n.upload.labelArchive.replace('${fileName}', fileName),
+            click: () => this.folders.queueFolderUpload(filePath, blockId, [], "archive"),
+        });
+        menu.addItem({
+            icon: "iconLink",
+            label: this.i18n.upload.labelLinks.replace('${fileName}', fileName),
+            click: () => this.folders.queueLinksUpload(filePath, blockId),
         });
 
         return true;
     }
 
     /**
-     * 向上遍历 DOM 树查找块 ID
-     * @param element 起始元素
-     * @returns 块 ID 或 null
-     */
-    private findBlockId(element: HTMLElement): string | null {
-        let current: HTMLElement | null = element;
-        while (current) {
-            const blockId = current.getAttribute(BLOCK_ID_ATTR);
-            if (blockId) return blockId;
-            current = current.parentElement;
-        }
-        return null;
-    }
-
-    /**
-     * 上传文件夹并插入到编辑器（核心流程）
-     * 流程：1.扫描目录 2.批量上传 3.回填URL 4.插入markdown
+     * 询问本次上传的额外忽略模式后再上传
      * @param dirPath 目录路径
      * @param blockId 目标块 ID
      */
-    private async uploadAndInsert(dirPath: string, blockId: string) {
-        const startTime = Date.now();
-        clearCache();
-        this.failedFiles = [];
-        this.uploadAbortController = new AbortController();
-
-        try {
-            showMessage(`[${this.name}]: ${this.i18n.upload.scanning}`);
-            const {tree, filePaths} = await this.buildDirectoryTree(dirPath, 0);
-
-            if (filePaths.length === 0) {
-                showMessage(`[${this.name}]: ${this.i18n.upload.emptyFolder}`);
-                return;
-            }
-            if (filePaths.length >= MAX_FILES) {
-                showMessage(`[${this.name}]: ${this.i18n.error.tooManyFiles
-                    .replace('${maxFiles}', String(MAX_FILES))
-                }`);
-                return;
-            }
-
-            showMessage(`[${this.name}]: ${this.i18n.upload.foundFiles.replace('${count}', String(filePaths.length))}`);
-            const urlMap = await this.uploadFilesInBatches(filePaths);
-
-            this.fillTreeUrls(tree, urlMap);
-
-            await this.insertMarkdown(tree, dirPath, blockId);
-
-            const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-
-            if (this.failedFiles.length > 0) {
-                const failedList = this.failedFiles.map(f => `  - ${f}`).join('\n');
-                console.error(`[${this.name}] ${this.i18n.upload.failedFilesList.replace('${files}', failedList)}`);
-                showMessage(`[${this.name}]: ${this.i18n.upload.partialFailed
-                    .replace('${success}', String(filePaths.length - this.failedFiles.length))
-                    .replace('${total}', String(filePaths.length))
-                    .replace('${failed}', String(this.failedFiles.length))
-                    .replace('${elapsed}', elapsed)
-                }`);
-            } else {
-                showMessage(`[${this.name}]: ${this.i18n.upload.success
-                    .replace('${count}', String(filePaths.length))
-                    .replace('${elapsed}', elapsed)
-                }`);
-            }
-
-        } catch (err) {
-            const errorMsg = this.getErrorMessage(err);
-            showMessage(`[${this.name}]: ${errorMsg}`);
-        } finally {
-            clearCache();
-            this.uploadAbortController = null;
-        }
-    }
+    private async uploadWithFilters(dirPath: string, blockId: string) {
+        const text = await inputDialogSync({
+            title: this.i18n.upload.filterPrompt,
+            placeholder: "**/*.log",
+        });
+        if (text === null) return;
 
-    /** 检查路径是否为目录 */
-    private isDirectory(dirPath: string): boolean {
-        try {
-            return fs.statSync(dirPath).isDirectory();
-        } catch {
-            return false;
-        }
+        this.folders.queueFolderUpload(dirPath, blockId, parsePatterns(text));
     }
 
-    /**
-     * 构建目录树（并发处理子目录）
-     * @param dirPath 目录路径
-     * @param currentDepth 当前深度
-     * @param fileCountRef 文件计数引用（共享计数器）
-     * @returns 树结构和文件路径列表
-     */
-    private async buildDirectoryTree(
-        dirPath: string,
-        currentDepth: number,
-        fileCountRef: {count: number} = {count: 0}
-    ): Promise<{tree: TreeNode[], filePaths: string[]}> {
-        if (currentDepth >= MAX_DEPTH) {
-            throw new Error(this.i18n.error.depthExceeded
-                .replace('${depth}', String(currentDepth + 1))
-                .replace('${maxDepth}', String(MAX_DEPTH))
-            );
-        }
+    /** 编辑器加载后监听拖放（思源事件监听） */
+    private handleProtyleLoaded = ({detail}: {detail: IEventBusMap["loaded-protyle-static"]}) => {
+        this.listenDrop(detail.protyle);
+    };
 
-        if (this.uploadAbortController?.signal.aborted) {
-            return {tree: [], filePaths: []};
+    /** 编辑器销毁时移除拖放监听（思源事件监听） */
+    private handleProtyleDestroyed = ({detail}: {detail: IEventBusMap["destroy-protyle"]}) => {
+        const element = detail.protyle.wysiwyg?.element;
+        if (element && this.dropTargets.delete(element)) {
+            element.removeEventListener("drop", this.handleDrop, true);
         }
-
-        const entries = await fs.promises.readdir(dirPath, {withFileTypes: true});
-        const nodes: TreeNode[] = [];
-        const filePaths: string[] = [];
-        const subDirs: Array<{name: string, path: string}> = [];
-
-        for (const entry of entries) {
-            if (!defaultFilter(entry.name)) continue;
-
-            const fullPath = path.join(dirPath, entry.name);
-
-            try {
-                // 检查文件数量限制（在添加文件之前）
-                if (fileCountRef.count >= MAX_FILES) {
-                   continue;
-                }
-                if (entry.isFile()) {
-                    // P0 优化：普通文件使用同步 stat，无需异步 lstat（entry.isFile() 已确认类型）
-                    const size = fs.statSync(fullPath).size;
-                    if (size > MAX_FILE_SIZE) {
-                        const sizeMB = (size / 1024 / 1024).toFixed(1);
-                        this.logWarn(this.i18n.error.fileTooLarge
-                            .replace('${size}', sizeMB)
-                            .replace('${fileName}', entry.name)
-                        );
-                        this.failedFiles.push(fullPath);
-                        continue;
-                    }
-
-                    filePaths.push(fullPath);
-                    nodes.push({name: entry.name, type: "file", filePath: fullPath});
-                    fileCountRef.count++;
-                } else if (entry.isSymbolicLink()) {
-                    continue;
-                } else if (entry.isDirectory()) {
-                    if (currentDepth + 1 >= MAX_DEPTH) {
-                        throw new Error(this.i18n.error.depthExceeded
-                            .replace('${depth}', String(currentDepth + 2))
-                            .replace('${maxDepth}', String(MAX_DEPTH))
-                        );
-                    }
-
-                    subDirs.push({name: entry.name, path: fullPath});
-                }
-            } catch (err) {
-                this.failedFiles.push(fullPath);
-                this.logWarn(this.i18n.error.cannotRead
-                    .replace('${fileName}', entry.name)
-                    .replace('${error}', this.getErrorMessage(err))
-                );
-            }
-        }
-
-        // 并发处理子目录（最多 3 个 worker），平衡性能与资源占用
-        const MAX_CONCURRENT_SUBDIRS = 3;
-        let index = 0;
-
-        const processNext = async (): Promise<void> => {
-            while (index < subDirs.length) {
-                if (this.uploadAbortController?.signal.aborted) {
-                    break;
-                }
-                const subDir = subDirs[index++];
-                const result = await this.buildDirectoryTree(subDir.path, currentDepth + 1, fileCountRef);
-                nodes.push({name: subDir.name, type: "directory", children: result.tree});
-                filePaths.push(...result.filePaths);
-            }
-        };
-
-        const workers = Array(Math.min(MAX_CONCURRENT_SUBDIRS, subDirs.length))
-            .fill(null)
-            .map(() => processNext());
-
-        await Promise.all(workers);
-
-        return {tree: nodes, filePaths};
-    }
+    };
 
     /**
-     * 将上传后的 URL 回填到树结构中
-     * @param tree 树结构
-     * @param urlMap 文件路径到 URL 的映射
+     * 在编辑区上监听拖放：捕获阶段先于思源处理，拖入文件夹时不再只插入 file:// 链接
+     * @param protyle 编辑器
      */
-    private fillTreeUrls(tree: TreeNode[], urlMap: Map<string, string>): void {
-        for (const node of tree) {
-            if (node.type === "file" && node.filePath) {
-                const url = urlMap.get(node.filePath);
-                if (url) {
-                    node.url = url;
-                } else {
-                    node.filePath = undefined;
-                }
-            } else if (node.type === "directory" && node.children) {
-                this.fillTreeUrls(node.children, urlMap);
-            }
-        }
+    private listenDrop(protyle: IProtyle): void {
+        const element = protyle.wysiwyg?.element;
+        if (!element || this.dropTargets.has(element)) return;
+
+        element.addEventListener("drop", this.handleDrop, true);
+        this.dropTargets.add(element);
     }
 
     /**
-     * 批量上传文件（分批处理，每批 BATCH_SIZE 个文件）
-     * @param filePaths 文件路径列表
-     * @returns 文件路径到 URL 的映射
+     * 处理拖放：拖入的全部是文件夹时接管，询问是否上传并在放下位置插入目录树
+     * 混有普通文件时交给思源默认处理（插入链接后仍可通过右键菜单上传）
      */
-    private async uploadFilesInBatches(filePaths: string[]): Promise<Map<string, string>> {
-        const allResults = new Map<string, string>();
-
-        const batches: string[][] = [];
-        for (let i = 0; i < filePaths.length; i += BATCH_SIZE) {
-            batches.push(filePaths.slice(i, i + BATCH_SIZE));
-        }
+    private handleDrop = (event: DragEvent) => {
+        const files = Array.from(event.dataTransfer?.files || []);
+        if (files.length === 0) return;
 
-        for (let i = 0; i < batches.length; i++) {
-            if (this.uploadAbortController?.signal.aborted) {
-                break;
-            }
-
-            const batchPaths = batches[i];
-
-            const renameMap = this.generateRenameMap(batchPaths);
-            const batchResults = await this.uploadSingleBatch(batchPaths, renameMap, i + 1);
-
-            for (const filePath of batchPaths) {
-                const uploadedName = renameMap.get(filePath) || getFileName(filePath);
-                const url = batchResults.get(uploadedName);
+        const dirPaths = files.map(getLocalFilePath);
+        if (dirPaths.some(dirPath => !dirPath || !isDirectory(dirPath))) return;
 
-                if (url) {
-                    allResults.set(filePath, url);
-                } else {
-                    this.failedFiles.push(filePath);
-                }
-            }
-        }
+        const blockId = findBlockId(event.target as HTMLElement);
+        if (!blockId) return;
 
-        return allResults;
-    }
+        event.preventDefault();
+        event.stopImmediatePropagation();
+        this.offerFolderUpload(dirPaths, blockId);
+    };
 
     /**
-     * 检测批次内同名文件，生成重命名映射
-     * @param filePaths 文件路径列表
-     * @returns 文件路径到重命名后文件名的映射
+     * 处理粘贴（思源事件监听）：从粘贴的本地文件中取出文件夹，询问是否上传并在光标位置插入目录树，
+     * 其余文件仍交给思源处理
      */
-    private generateRenameMap(filePaths: string[]): Map<string, string> {
-        const nameCountMap = new Map<string, number>();
-        const renameMap = new Map<string, string>();
-
-        for (const filePath of filePaths) {
-            const originalName = getFileName(filePath);
-            const count = nameCountMap.get(originalName) || 0;
-            nameCountMap.set(originalName, count + 1);
-
-            if (count > 0) {
-                const ext = path.extname(originalName);
-                const baseName = path.basename(originalName, ext);
-                const uniqueName = `${baseName}_${count}${ext}`;
-                renameMap.set(filePath, uniqueName);
-            }
-        }
+    private handlePaste = (event: CustomEvent<IEventBusMap["paste"]>) => {
+        const {protyle, files} = event.detail;
+        const items = Array.from<string | File | DataTransferItem>(files || []);
+        const dirPaths: string[] = [];
+        const rest = items.filter(item => {
+            const filePath = getLocalFilePath(item);
+            if (!filePath || !isDirectory(filePath)) return true;
+            dirPaths.push(filePath);
+            return false;
+        });
+        if (dirPaths.length === 0) return;
 
-        return renameMap;
-    }
+        const blockId = findSelectionBlockId(protyle);
+        if (!blockId) return;
 
-    /**
-     * 上传单个批次
-     * @param batch 批次文件路径列表
-     * @param renameMap 重命名映射
-     * @param batchNumber 批次编号
-     * @returns 文件名到 URL 的映射
-     */
-    private async uploadSingleBatch(batch: string[], renameMap: Map<string, string>, batchNumber: number): Promise<Map<string, string>> {
-        const formData = await this.createFormDataFromPaths(batch, renameMap);
-        return this.sendUploadRequest(formData, batchNumber);
-    }
+        // 类型声明把 resolve 标注成了构造签名，实际是普通回调；阻止默认后思源会等待 resolve 的结果
+        const resolve = event.detail.resolve as unknown as (value: {files: typeof files}) => void;
+        event.preventDefault();
+        resolve({files: rest as typeof files});
+        this.offerFolderUpload(dirPaths, blockId);
+    };
 
     /**
-     * 从文件路径创建 FormData（并发读取文件）
-     * @param filePaths 文件路径列表
-     * @param renameMap 重命名映射
-     * @returns FormData 对象
+     * 询问是否上传拖入或粘贴的文件夹；确认后逐个加入上传队列，取消时与思源默认行为一致，插入本地文件链接
+     * @param dirPaths 文件夹路径
+     * @param blockId 放下或粘贴位置所在块 ID，目录树插入到该块之后
      */
-    private async createFormDataFromPaths(filePaths: string[], renameMap: Map<string, string>): Promise<FormData> {
-        const formData = new FormData();
-        formData.append("assetsDirPath", ASSETS_DIR);
-
-        // 并发读取文件（最多 5 个），降低内存占用峰值
-        const MAX_CONCURRENT_READS = 5;
-        const results: Array<{file: File | null, success: boolean}> = [];
-
-        for (let i = 0; i < filePaths.length; i += MAX_CONCURRENT_READS) {
-            const batch = filePaths.slice(i, i + MAX_CONCURRENT_READS);
-
-            const batchPromises = batch.map(async (filePath) => {
-                try {
-                    if (this.uploadAbortController?.signal.aborted) {
-                        return {file: null, success: false};
-                    }
-
-                    const buffer = await fs.promises.readFile(filePath);
-                    const uploadName = renameMap.get(filePath) || getFileName(filePath);
-                    return {file: new File([buffer], uploadName), success: true};
-                } catch {
-                    this.failedFiles.push(filePath);
-                    this.logWarn(this.i18n.error.readFileFailed.replace('${filePath}', filePath));
-                    return {file: null, success: false};
-                }
-            });
-
-            results.push(...await Promise.all(batchPromises));
-        }
+    private offerFolderUpload(dirPaths: string[], blockId: string): void {
+        const insertLinks = () => {
+            const links = dirPaths.map(dirPath =>
+                `[${getFileName(dirPath).replace(/([[\]])/g, '\\$1')}](${toFileUrl(dirPath)})`
+            );
+            this.output.insertToEditor(links.join(" "), blockId);
+        };
 
-        for (const result of results) {
-            if (result.success && result.file) {
-                formData.append("file[]", result.file);
+        const validPaths = dirPaths.filter(dirPath => {
+            const validation = this.workspace.validatePath(dirPath);
+            if (!validation.valid) {
+                showMessage(`[${this.name}]: ${validation.error}`);
             }
+            return validation.valid;
+        });
+        if (validPaths.length === 0) {
+            insertLinks();
+            return;
         }
 
-        return formData;
+        const names = validPaths.map(getFileName).join(", ");
+        confirm(
+            this.i18n.drop.title,
+            this.i18n.drop.confirm.replace('${fileName}', names),
+            () => validPaths.forEach(dirPath => this.folders.queueFolderUpload(dirPath, blockId)),
+            insertLinks
+        );
     }
 
     /**
-     * 发送上传请求到思源 API
-     * @param formData FormData 对象
-     * @param batchNumber 批次编号
-     * @returns 文件名到 URL 的映射
+     * 打开文件夹选择对话框，验证所选路径后上传并在指定块之后插入目录树
+     * @param blockId 目标块 ID
      */
-    private async sendUploadRequest(
-        formData: FormData,
-        batchNumber: number
-    ): Promise<Map<string, string>> {
-        try {
-            const response = await fetch("/api/asset/upload", {
-                method: "POST",
-                body: formData,
-            });
-            const result = await response.json();
-
-            if (result.code !== 0) {
-                this.logError(this.i18n.error.batchUploadFailed
-                    .replace('${batchNumber}', String(batchNumber))
-                    .replace('${error}', result.msg || this.i18n.error.uploadFailed)
-                );
-                return new Map();
-            }
+    private async pickFolder(blockId: string | null): Promise<void> {
+        if (!blockId) {
+            showMessage(`[${this.name}]: ${this.i18n.error.noBlockId}`);
+            return;
+        }
 
-            return this.parseUploadResponse(result.data?.succMap || {});
+        const result: {canceled: boolean, filePaths: string[]} = await electron.ipcRenderer.invoke(SIYUAN_IPC_GET, {
+            cmd: "showOpenDialog",
+            title: this.i18n.insertFolderTree,
+            properties: ["openDirectory"],
+        });
+        if (result.canceled || result.filePaths.length === 0) return;
 
-        } catch (err) {
-            this.logError(this.i18n.error.batchUploadFailed
-                .replace('${batchNumber}', String(batchNumber))
-                .replace('${error}', this.getErrorMessage(err))
-            );
-            return new Map();
+        const dirPath = result.filePaths[0];
+        const validation = this.workspace.validatePath(dirPath);
+        if (!validation.valid) {
+            showMessage(`[${this.name}]: ${validation.error}`);
+            return;
         }
+        this.folders.queueFolderUpload(dirPath, blockId);
     }
 
-    /** 解析思源 API 响应 */
-    private parseUploadResponse(succMap: Record<string, string>): Map<string, string> {
-        const results = new Map<string, string>();
-        for (const [name, url] of Object.entries(succMap)) {
-            results.set(name, url);
-        }
-        return results;
-    }
+    /** 选择文件夹失败（如打开对话框出错）时提示 */
+    private showPickFolderError = (err: unknown) => {
+        showMessage(`[${this.name}]: ${this.getErrorMessage(err)}`);
+    };
 
     /**
-     * 将目录树插入到编辑器
-     * @param tree 目录树
-     * @param dirPath 原始目录路径
-     * @param blockId 目标块 ID
+     * 将任务结束后的失败文件作为新任务重新上传
+     * @param task 已结束的任务
      */
-    private async insertMarkdown(tree: TreeNode[], dirPath: string, blockId: string): Promise<void> {
-        const dirName = getFileName(dirPath);
-        const markdown = this.generateTreeMarkdown(tree, dirName);
-        await this.insertToEditor(markdown, blockId);
+    retryFailedFiles(task: UploadTask): void {
+        const retry = task.failedRetry;
+        if (!retry || task.state === "queued" || task.state === "running") return;
+
+        task.failedRetry = null;
+        updateProgress(task, {retryable: 0});
+        this.uploadQueue.add(this.i18n.queue.retryTitle.replace('${name}', task.title), retry.run);
     }
 
     /**
-     * 生成目录树的 Markdown 文本
-     * @param tree 目录树
-     * @param rootName 根目录名称
-     * @param indent 缩进层级
-     * @returns Markdown 文本
+     * 处理块标菜单事件：
+     * - 选中块中包含本地文件链接时，添加“上传选中内容中的所有本地资源”菜单项
+     * - 为带有源目录属性的目录树块添加“重新同步”菜单项
      */
-    private generateTreeMarkdown(tree: TreeNode[], rootName: string, indent = 0): string {
-        const lines: string[] = [];
-
-        if (indent === 0) {
-            lines.push(`- 📁 **${rootName}**`);
-        }
-
-        for (const node of tree) {
-            this.renderNode(node, indent, lines);
+    private handleClickBlockIcon = ({detail}: {detail: IEventBusMap["click-blockicon"]}) => {
+        const {menu, blockElements} = detail;
+
+        const links = this.localFiles.collectLocalLinks(blockElements);
+        if (links.length > 0) {
+            const rootName = this.i18n.file.selectionName.replace('${count}', String(links.length));
+            menu.addItem({
+                icon: "iconUpload",
+                label: this.i18n.file.selectionLabel.replace('${count}', String(links.length)),
+                click: () => {
+                    this.uploadQueue.add(rootName, task => this.localFiles.uploadLocalFiles(task, links));
+                },
+            });
         }
 
-        return lines.join("\n");
-    }
+        if (blockElements.length !== 1) return;
 
-    /**
-     * 渲染单个节点到 Markdown（优化：直接传入 lines 数组引用）
-     * @param node 树节点
-     * @param indent 缩进层级
-     * @param lines Markdown 行数组
-     */
-    private renderNode(node: TreeNode, indent: number, lines: string[]): void {
-        const prefix = "  ".repeat(indent + 1) + "- ";
+        const blockElement = blockElements[0];
+        const sourcePath = blockElement.getAttribute(ATTR_SOURCE);
+        const blockId = blockElement.getAttribute(BLOCK_ID_ATTR);
+        if (!sourcePath || !blockId) return;
 
-        if (node.type === "directory") {
-            lines.push(`${prefix}📁 **${node.name}**`);
-            if (node.children?.length) {
-                lines.push(this.generateTreeMarkdown(node.children, "", indent + 1));
-            }
-        } else if (node.type === "symlink") {
-            const target = node.linkTarget || this.i18n.error.unknownTarget;
-            lines.push(`${prefix}🔗 ${node.name} → \`${target}\``);
-        } else {
-            const link = node.url ? `[${node.name}](${node.url})` : `\`${node.name}\``;
-            lines.push(`${prefix}${link}`);
-        }
-    }
+        menu.addItem({
+            icon: "iconRefresh",
+            label: this.i18n.resync.label.replace('${fileName}', getFileName(sourcePath)),
+            click: () => {
+                this.uploadQueue.add(getFileName(sourcePath), task => this.folders.resyncFolder(task, blockId));
+            },
+        });
 
-    /** 调用思源 API 插入内容到编辑器 */
-    private async insertToEditor(markdown: string, blockId: string): Promise<void> {
-        try {
-            await fetchSyncPost("/api/block/insertBlock", {
-                dataType: "markdown",
-                data: markdown,
-                previousID: blockId,
-            });
-        } catch (err) {
-            this.logError(this.i18n.error.insertFailed, err);
-        }
-    }
+        const watching = blockElement.getAttribute(ATTR_WATCH) === "true";
+        menu.addItem({
+            icon: watching ? "iconEyeoff" : "iconEye",
+            label: (watching ? this.i18n.watch.stopLabel : this.i18n.watch.label).replace('${fileName}', getFileName(sourcePath)),
+            click: () => this.watcher.setWatch(blockId, sourcePath, !watching),
+        });
+    };
 
     /** 获取错误信息的字符串表示 */
-    private getErrorMessage(err: unknown): string {
+    getErrorMessage(err: unknown): string {
         if (err instanceof Error) return err.message;
         return String(err);
     }
 
     /** 记录错误日志 */
-    private logError(message: string, err?: unknown): void {
+    logError(message: string, err?: unknown): void {
         const errorDetails = err ? `: ${this.getErrorMessage(err)}` : "";
         console.error(`[${this.name}] ${message}${errorDetails}`);
     }
 
     /** 记录警告日志 */
-    private logWarn(message: string): void {
+    logWarn(message: string): void {
         console.warn(`[${this.name}] ${message}`);
     }
 
+    /** 记录调试日志 */
+    logDebug(message: string): void {
+        console.debug(`[${this.name}] ${message}`);
+    }
+
     /** 插件卸载入口 */
     async onunload() {
         this.cancelUpload();
 
         this.eventBus.off("open-menu-link", this.handleOpenMenuLink);
+        this.eventBus.off("click-blockicon", this.handleClickBlockIcon);
+        this.eventBus.off("paste", this.handlePaste);
+        this.eventBus.off("loaded-protyle-static", this.handleProtyleLoaded);
+        this.eventBus.off("destroy-protyle", this.handleProtyleDestroyed);
+        this.dropTargets.forEach(element => element.removeEventListener("drop", this.handleDrop, true));
+        this.dropTargets.clear();
+        this.watcher.stopAll();
+        this.dialogs.closeProgressPanel();
         clearCache();
     }
 
     /**
-     * 取消当前上传（公开方法，可供外部调用）
-     * 通过 AbortController 中断所有异步操作
+     * 取消全部排队和运行中的上传（公开方法，可供外部调用）
+     * 通过各任务的 AbortController 中断异步操作
      */
     public cancelUpload(): void {
-        if (this.uploadAbortController) {
-            this.uploadAbortController.abort();
-            this.uploadAbortController = null;
+        if (this.uploadQueue?.cancelAll() > 0) {
             showMessage(`[${this.name}]: ${this.i18n.uploadCanceled}`);
         }
     }
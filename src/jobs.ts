@@ -0,0 +1,242 @@
+/**
+ * 上传任务日志与历史：执行可继续的文件夹上传，继续或放弃未完成的任务，撤销历史中的上传
+ */
+import {showMessage, confirm} from "siyuan";
+import {collectFilePaths, collectFileSizes, pruneTree, walkNode} from "./libs/tree";
+import {UploadJob} from "./libs/journal";
+import {HistoryEntry} from "./libs/history";
+import {UploadTask} from "./libs/upload-queue";
+import {deleteBlock, flushTransaction, getBlockByID, getIDsByHPath, removeDocByID} from "./api";
+import {isMarkdownFile, isDirectory} from "./files";
+import {PluginContext} from "./context";
+import {TreeOptions} from "./tree-output";
+
+export class UploadJobs {
+    private plugin: PluginContext;
+
+    constructor(plugin: PluginContext) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * 执行可继续的上传：上传待上传的文件（每批写入任务日志），再导入 Markdown 文件
+     * @param task 上传任务
+     * @param job 任务日志中的记录
+     * @param tree 本次上传的目录树
+     * @returns 文件路径到地址的映射
+     */
+    async runUploadJob(task: UploadTask, job: UploadJob, tree: TreeNode[]): Promise<Map<string, string>> {
+        task.record = job;
+        try {
+            await this.plugin.journal.save(job);
+        } catch (err) {
+            this.plugin.logWarn(this.plugin.getErrorMessage(err));
+        }
+
+        const uploaded = await this.plugin.uploader.uploadFilesInBatches(task, job.pending, collectFileSizes(tree), job.dirPath, job.assetsDir);
+        const urlMap = new Map([...Object.entries(job.completed), ...uploaded]);
+
+        if (job.markdownRoot && !task.controller.signal.aborted) {
+            const markdownPaths = collectFilePaths(tree).filter(isMarkdownFile);
+            const imports = this.plugin.importer.createMarkdownImports(markdownPaths, job.dirPath, job.markdownRoot);
+            const docUrls = await this.plugin.importer.importMarkdownForTree(task, job.blockId, imports, urlMap);
+            docUrls.forEach((url, filePath) => urlMap.set(filePath, url));
+        }
+        return urlMap;
+    }
+
+    /**
+     * 将一批上传结果写入任务日志（失败的文件保留在待上传列表中，继续任务时重试）
+     * @param task 上传任务（没有任务日志记录时忽略）
+     * @param batchPaths 本批次文件
+     * @param results 目前为止的上传结果
+     * @param uploadedUrls 本批次新上传的资源地址
+     */
+    async recordJobBatch(
+        task: UploadTask,
+        batchPaths: string[],
+        results: Map<string, string>,
+        uploadedUrls: string[]
+    ): Promise<void> {
+        const job = task.record;
+        if (!job) return;
+
+        for (const filePath of batchPaths) {
+            const url = results.get(filePath);
+            if (url) job.completed[filePath] = url;
+        }
+        job.uploaded.push(...uploadedUrls);
+        job.pending = job.pending.filter(filePath => !(filePath in job.completed));
+
+        try {
+            await this.plugin.journal.save(job);
+        } catch (err) {
+            this.plugin.logWarn(this.plugin.getErrorMessage(err));
+        }
+    }
+
+    /** 从任务日志中移除记录 */
+    async removeJob(job: UploadJob): Promise<void> {
+        try {
+            await this.plugin.journal.remove(job.id);
+        } catch (err) {
+            this.plugin.logWarn(this.plugin.getErrorMessage(err));
+        }
+    }
+
+    /**
+     * 查找与指定块位于同一笔记本、可读路径为 hpath 的文档
+     * @param blockId 块 ID
+     * @param hpath 可读路径
+     * @returns 文档 ID 列表，查找失败时返回空数组
+     */
+    async findDocIds(blockId: string, hpath: string): Promise<string[]> {
+        try {
+            const block = await getBlockByID(blockId);
+            return block?.box ? await getIDsByHPath(block.box, hpath) || [] : [];
+        } catch (err) {
+            this.plugin.logWarn(this.plugin.getErrorMessage(err));
+            return [];
+        }
+    }
+
+    /**
+     * 保存上传历史记录（失败只记录日志，不影响上传结果）
+     * @param entry 记录
+     */
+    async saveHistory(entry: HistoryEntry): Promise<void> {
+        try {
+            await this.plugin.history.save(entry);
+        } catch (err) {
+            this.plugin.logWarn(this.plugin.getErrorMessage(err));
+        }
+    }
+
+    /**
+     * 继续未完成的上传：重新扫描源目录，只上传尚未完成的文件，然后插入目录树
+     * @param task 上传任务
+     * @param job 任务日志中的记录
+     */
+    async resumeJob(task: UploadTask, job: UploadJob) {
+        const startTime = Date.now();
+        const signal = task.controller.signal;
+        let finished = false;
+
+        try {
+            if (!isDirectory(job.dirPath)) {
+                throw new Error(this.plugin.i18n.resync.noSource.replace('${path}', job.dirPath));
+            }
+
+            const scanContext = this.plugin.scanner.createScanContext(task, job.dirPath, job.extraPatterns);
+            const scanned = await this.plugin.scanner.buildDirectoryTree(job.dirPath, 0, scanContext);
+            if (signal.aborted) {
+                return;
+            }
+
+            // 只保留开始上传时选中的文件
+            const selected = new Set(job.files);
+            const excluded = new Set<TreeNode>();
+            for (const node of scanned.tree) {
+                walkNode(node, (item) => {
+                    if (item.type !== "directory" && !selected.has(item.filePath)) excluded.add(item);
+                });
+            }
+            const tree = pruneTree(scanned.tree, excluded);
+            const filePaths = collectFilePaths(tree);
+            job.pending = filePaths.filter(filePath =>
+                !(filePath in job.completed) && !(job.markdownRoot && isMarkdownFile(filePath))
+            );
+
+            const urlMap = await this.runUploadJob(task, job, tree);
+            if (signal.aborted) {
+                return;
+            }
+
+            const options: TreeOptions = {
+                extraPatterns: job.extraPatterns,
+                assetsDir: job.assetsDir,
+                format: job.format,
+                archiveUrl: null,
+                markdownRoot: job.markdownRoot,
+                linksOnly: false,
+                watch: false,
+                excluded: job.excluded,
+            };
+            await this.plugin.folders.insertTree(task, tree, job.dirPath, job.blockId, options, urlMap);
+            finished = true;
+
+            const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+            showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.journal.resumed
+                .replace('${count}', String(filePaths.length - task.failures.length))
+                .replace('${failed}', String(task.failures.length))
+                .replace('${elapsed}', elapsed)
+            }`);
+        } finally {
+            if (finished) {
+                await this.removeJob(job);
+                task.record = null;
+            }
+        }
+    }
+
+    /**
+     * 放弃未完成的上传任务，删除本任务新上传且未被任何块引用的资源
+     * @param job 上传任务
+     */
+    async discardJob(job: UploadJob) {
+        const removed = await this.plugin.uploader.removeUnusedAssets(job.uploaded);
+
+        await this.removeJob(job);
+        showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.journal.discarded.replace('${count}', String(removed))}`);
+    }
+
+    /**
+     * 确认后撤销上传：删除插入的目录树块和新建的文档，还原被替换的链接，
+     * 再删除本次上传且不再被任何块引用的资源
+     * @param entry 上传历史记录
+     * @returns 是否已撤销（取消确认或出错时为 false）
+     */
+    undoUpload(entry: HistoryEntry): Promise<boolean> {
+        const confirmText = {
+            tree: this.plugin.i18n.history.undoConfirm,
+            docs: this.plugin.i18n.history.undoConfirmDocs,
+            files: this.plugin.i18n.history.undoConfirmFiles,
+        }[entry.kind];
+        const text = confirmText
+            .replace('${fileName}', entry.title)
+            .replace('${count}', String(entry.uploaded.length));
+
+        return new Promise(resolve => confirm(this.plugin.i18n.history.undo, text, async () => {
+            try {
+                if (entry.treeBlockId) {
+                    this.plugin.watcher.stopWatch(entry.treeBlockId);
+                    if (await getBlockByID(entry.treeBlockId)) {
+                        await deleteBlock(entry.treeBlockId);
+                    }
+                    await this.plugin.manifests.remove(entry.treeBlockId);
+                }
+                await this.plugin.localFiles.restoreLinks(entry.links);
+                for (const docId of entry.docs) {
+                    // 先删除的父文档会一并删除子文档
+                    if (await getBlockByID(docId)) {
+                        await removeDocByID(docId);
+                    }
+                }
+                // 等待删除写入数据库，否则资源仍会查到被目录树、文档或链接引用
+                await flushTransaction();
+                const removed = await this.plugin.uploader.removeUnusedAssets(entry.uploaded);
+                await this.plugin.history.remove(entry.id);
+
+                showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.history.undone
+                    .replace('${removed}', String(removed))
+                    .replace('${kept}', String(entry.uploaded.length - removed))
+                }`);
+                resolve(true);
+            } catch (err) {
+                this.plugin.logError(this.plugin.i18n.history.undoFailed, err);
+                showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.history.undoFailed}`);
+                resolve(false);
+            }
+        }, () => resolve(false)));
+    }
+}
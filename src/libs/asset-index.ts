@@ -0,0 +1,103 @@
+/**
+ * 资源内容哈希索引：SHA-256 → 资源地址
+ * 用于在上传前识别思源中已存在的相同文件，复用其地址而不是重复上传。
+ */
+import { Plugin } from "siyuan";
+import { getFileBlob, readDir } from "@/api";
+
+const INDEX_FILE = "asset-hashes.json";
+const ASSETS_ROOT = "/data/assets";
+
+/**
+ * 计算 Blob 的 SHA-256
+ * @param blob 文件内容
+ * @returns 十六进制哈希
+ */
+export async function sha256OfBlob(blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, "0"))
+        .join("");
+}
+
+export class AssetHashIndex {
+    private plugin: Plugin;
+    private hashes = new Map<string, string>();
+    private dirty = false;
+
+    constructor(plugin: Plugin) {
+        this.plugin = plugin;
+    }
+
+    /** 已索引的资源数量 */
+    get size(): number {
+        return this.hashes.size;
+    }
+
+    /** 从插件存储加载索引 */
+    async load(): Promise<void> {
+        const data = await this.plugin.loadData(INDEX_FILE);
+        this.hashes = new Map(Object.entries(data && typeof data === "object" ? data : {}));
+        this.dirty = false;
+    }
+
+    /** 索引有变化时保存到插件存储 */
+    async save(): Promise<void> {
+        if (!this.dirty) return;
+        await this.plugin.saveData(INDEX_FILE, Object.fromEntries(this.hashes));
+        this.dirty = false;
+    }
+
+    get(hash: string): string | undefined {
+        return this.hashes.get(hash);
+    }
+
+    set(hash: string, url: string): void {
+        if (this.hashes.get(hash) === url) return;
+        this.hashes.set(hash, url);
+        this.dirty = true;
+    }
+
+    delete(hash: string): void {
+        if (this.hashes.delete(hash)) {
+            this.dirty = true;
+        }
+    }
+
+    /**
+     * 扫描 /data/assets 重建索引（替换现有索引并保存）
+     * @param onProgress 每索引一个文件后回调已处理数量
+     * @returns 索引的文件数量
+     */
+    async rebuild(onProgress?: (count: number) => void): Promise<number> {
+        const hashes = new Map<string, string>();
+        let count = 0;
+
+        const walk = async (relativeDir: string): Promise<void> => {
+            const entries = (await readDir(`${ASSETS_ROOT}${relativeDir}`) as unknown as IResReadDir[]) || [];
+            for (const entry of entries) {
+                const relativePath = `${relativeDir}/${entry.name}`;
+                if (entry.isSymlink) continue;
+                if (entry.isDir) {
+                    await walk(relativePath);
+                    continue;
+                }
+
+                const blob = await getFileBlob(`${ASSETS_ROOT}${relativePath}`);
+                if (!blob) continue;
+                const hash = await sha256OfBlob(blob);
+                // 多个资源内容相同时保留先扫描到的
+                if (!hashes.has(hash)) {
+                    hashes.set(hash, `assets${relativePath}`);
+                }
+                onProgress?.(++count);
+            }
+        };
+
+        await walk("");
+        this.hashes = hashes;
+        this.dirty = true;
+        await this.save();
+        return count;
+    }
+}
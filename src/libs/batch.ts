@@ -0,0 +1,44 @@
+/**
+ * 上传分批（纯函数，不依赖 Node.js 模块）
+ */
+
+/**
+ * 按文件数和总字节数将文件分批，保持原有顺序
+ * 单个文件达到字节上限时单独成批，不与其他文件合并
+ * @param filePaths 文件路径列表
+ * @param fileSizes 文件路径到大小的映射（缺失视为 0）
+ * @param maxCount 每批最多文件数
+ * @param maxBytes 每批最多字节数
+ * @returns 分批后的文件路径
+ */
+export function packBatches(
+    filePaths: string[],
+    fileSizes: Map<string, number>,
+    maxCount: number,
+    maxBytes: number
+): string[][] {
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let currentBytes = 0;
+
+    for (const filePath of filePaths) {
+        const size = fileSizes.get(filePath) || 0;
+
+        if (current.length > 0 && (size >= maxBytes || current.length >= maxCount || currentBytes + size > maxBytes)) {
+            batches.push(current);
+            current = [];
+            currentBytes = 0;
+        }
+        current.push(filePath);
+        currentBytes += size;
+        if (size >= maxBytes) {
+            batches.push(current);
+            current = [];
+            currentBytes = 0;
+        }
+    }
+    if (current.length > 0) {
+        batches.push(current);
+    }
+    return batches;
+}
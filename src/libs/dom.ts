@@ -0,0 +1,34 @@
+/**
+ * 编辑器 DOM 工具：查找块 ID
+ */
+import type {IProtyle} from "siyuan";
+
+export const HREF_ATTR = "data-href";
+export const BLOCK_ID_ATTR = "data-node-id";
+
+/**
+ * 向上遍历 DOM 树查找块 ID
+ * @param element 起始元素
+ * @returns 块 ID 或 null
+ */
+export function findBlockId(element: HTMLElement): string | null {
+    let current: HTMLElement | null = element;
+    while (current) {
+        const blockId = current.getAttribute(BLOCK_ID_ATTR);
+        if (blockId) return blockId;
+        current = current.parentElement;
+    }
+    return null;
+}
+
+/**
+ * 查找编辑器中光标所在块的 ID
+ * @param protyle 编辑器
+ * @returns 块 ID，光标不在该编辑器中时返回 null
+ */
+export function findSelectionBlockId(protyle: IProtyle): string | null {
+    const selection = window.getSelection();
+    const container = selection?.rangeCount ? selection.getRangeAt(0).startContainer : null;
+    const element = container instanceof HTMLElement ? container : container?.parentElement;
+    return element && protyle.wysiwyg?.element.contains(element) ? findBlockId(element) : null;
+}
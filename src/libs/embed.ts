@@ -0,0 +1,102 @@
+/**
+ * 目录树中的内联嵌入：图片缩略图、音视频块、小文本文件的代码块（纯函数，不依赖 Node.js 模块）
+ */
+import { getMimeType } from "./mime";
+
+// 嵌入选项（全部关闭时只渲染链接）
+export interface EmbedOptions {
+    images: boolean;                           // 图片渲染为 `![名称](地址)`
+    imageMaxSize: number;                      // 嵌入图片的大小上限（字节，0 表示不限制）
+    media: boolean;                            // 音频 / 视频渲染为思源音视频块
+    code: boolean;                             // 小文本文件渲染为代码块（内容由调用方读取到 node.content）
+}
+
+export type MediaKind = "image" | "audio" | "video";
+
+// 扩展名到代码块语言的映射，也用于判断文件是否可以作为文本嵌入
+const CODE_LANGUAGES: Record<string, string> = {
+    js: "javascript",
+    mjs: "javascript",
+    cjs: "javascript",
+    jsx: "jsx",
+    ts: "typescript",
+    tsx: "tsx",
+    vue: "vue",
+    svelte: "svelte",
+    py: "python",
+    java: "java",
+    kt: "kotlin",
+    go: "go",
+    rs: "rust",
+    rb: "ruby",
+    php: "php",
+    c: "c",
+    h: "c",
+    cpp: "cpp",
+    hpp: "cpp",
+    cc: "cpp",
+    cs: "csharp",
+    swift: "swift",
+    scala: "scala",
+    lua: "lua",
+    r: "r",
+    dart: "dart",
+    sh: "bash",
+    bash: "bash",
+    zsh: "bash",
+    ps1: "powershell",
+    bat: "dos",
+    sql: "sql",
+    html: "html",
+    htm: "html",
+    css: "css",
+    scss: "scss",
+    less: "less",
+    json: "json",
+    yaml: "yaml",
+    yml: "yaml",
+    toml: "toml",
+    ini: "ini",
+    xml: "xml",
+    md: "markdown",
+    markdown: "markdown",
+    txt: "text",
+    csv: "text",
+    log: "text",
+};
+
+/**
+ * 按扩展名获取代码块语言
+ * @param fileName 文件名
+ * @returns 语言标识，不是文本文件时返回 null
+ */
+export function getCodeLanguage(fileName: string): string | null {
+    const dot = fileName.lastIndexOf(".");
+    const ext = dot > 0 ? fileName.slice(dot + 1).toLowerCase() : "";
+    return CODE_LANGUAGES[ext] || null;
+}
+
+/**
+ * 按 MIME 类型判断媒体类别
+ * @param node 文件节点
+ * @returns 媒体类别，不是图片、音频或视频时返回 null
+ */
+export function getMediaKind(node: TreeNode): MediaKind | null {
+    const mime = node.mime || getMimeType(node.name);
+    const kind = mime.split("/")[0];
+    return kind === "image" || kind === "audio" || kind === "video" ? kind : null;
+}
+
+/**
+ * 生成包住内容的代码块围栏（比内容中最长的连续反引号多一个，至少三个）
+ * @param content 代码内容
+ * @returns 围栏
+ */
+export function codeFence(content: string): string {
+    // 反引号很多时展开参数会超出调用栈，逐个比较
+    let longest = 0;
+    for (const run of content.match(/`+/g) || []) {
+        longest = Math.max(longest, run.length);
+    }
+    return "`".repeat(Math.max(3, longest + 1));
+}
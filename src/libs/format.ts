@@ -0,0 +1,15 @@
+/**
+ * 格式化文件大小
+ * @param bytes 字节数
+ * @returns 可读字符串，如 `1.5 MB`
+ */
+export function formatSize(bytes: number): string {
+    const units = ["B", "KB", "MB", "GB", "TB"];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
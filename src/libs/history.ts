@@ -0,0 +1,84 @@
+/**
+ * 上传历史：记录每个上传任务（插入目录树、导入为文档、上传本地文件链接）的源目录、插入位置、
+ * 新上传的资源、新建的文档、替换的链接和失败的文件，保存在插件存储中，可在历史对话框中撤销。
+ */
+import { Plugin } from "siyuan";
+
+const HISTORY_FILE = "upload-history.json";
+const HISTORY_LIMIT = 100;                     // 最多保留的记录数，超出时丢弃最早的记录
+
+// 记录类型：插入目录树、导入为文档、上传本地文件链接（单个文件或选中内容）
+export type HistoryKind = "tree" | "docs" | "files";
+
+export interface HistoryEntry {
+    id: string;
+    kind: HistoryKind;
+    title: string;                             // 显示名称
+    dirPath: string;                           // 源目录（上传本地文件链接时为空）
+    blockId: string;                           // 目录树插入位置或链接所在块
+    treeBlockId: string | null;                // 插入的目录树块（插入失败或没有插入新块时为 null）
+    uploaded: string[];                        // 本次新上传的资源地址（撤销时删除未被引用的资源）
+    docs: string[];                            // 本次新建的文档 ID（撤销时删除，子文档一并删除）
+    links: Array<[string, string, string]>;    // 替换的链接：[块 ID, 原内容, 替换后的内容]（撤销时还原）
+    failures: string[];                        // 上传失败的文件
+    time: number;                              // 完成时间
+}
+
+export class UploadHistory {
+    private plugin: Plugin;
+    private entries: HistoryEntry[] = [];
+
+    constructor(plugin: Plugin) {
+        this.plugin = plugin;
+    }
+
+    /** 从插件存储加载上传历史 */
+    async load(): Promise<void> {
+        const data = await this.plugin.loadData(HISTORY_FILE);
+        this.entries = Array.isArray(data?.entries) ? data.entries : [];
+    }
+
+    /** 全部记录（最新的在前） */
+    list(): HistoryEntry[] {
+        return [...this.entries].reverse();
+    }
+
+    /**
+     * 查找目录树块的记录
+     * @param treeBlockId 目录树块 ID
+     */
+    find(treeBlockId: string): HistoryEntry | undefined {
+        return this.entries.find(entry => entry.treeBlockId === treeBlockId);
+    }
+
+    /**
+     * 新增或更新记录并保存
+     * @param entry 记录
+     */
+    async save(entry: HistoryEntry): Promise<void> {
+        const index = this.entries.findIndex(item => item.id === entry.id);
+        if (index === -1) {
+            this.entries.push(entry);
+            this.entries = this.entries.slice(-HISTORY_LIMIT);
+        } else {
+            this.entries[index] = entry;
+        }
+        await this.persist();
+    }
+
+    /**
+     * 移除记录并保存
+     * @param id 记录 ID
+     */
+    async remove(id: string): Promise<void> {
+        const count = this.entries.length;
+        this.entries = this.entries.filter(entry => entry.id !== id);
+        if (this.entries.length !== count) {
+            await this.persist();
+        }
+    }
+
+    private async persist(): Promise<void> {
+        await this.plugin.saveData(HISTORY_FILE, {entries: this.entries});
+    }
+}
@@ -0,0 +1,87 @@
+/**
+ * 目录树图标：按扩展名选择文件图标，可由用户设置覆盖（纯函数，不依赖 Node.js 模块）
+ *
+ * 图标可以是 emoji，也可以是思源自定义表情 `:名称:`（data/emojis 下的图片）
+ */
+
+// 扩展名到图标的映射，另有 folder / symlink / file 三个特殊键
+export type IconMap = Record<string, string>;
+
+export const FOLDER_ICON_KEY = "folder";       // 目录
+export const SYMLINK_ICON_KEY = "symlink";     // 符号链接
+export const FILE_ICON_KEY = "file";           // 没有匹配扩展名的文件
+
+// 按类别列出的默认图标
+const ICON_GROUPS: Array<[string, string[]]> = [
+    ["📁", [FOLDER_ICON_KEY]],
+    ["🔗", [SYMLINK_ICON_KEY]],
+    ["📄", [FILE_ICON_KEY]],
+    ["🖼️", ["png", "jpg", "jpeg", "gif", "webp", "bmp", "svg", "ico", "tif", "tiff", "avif", "heic", "psd"]],
+    ["📕", ["pdf"]],
+    ["📝", ["md", "markdown", "txt", "rtf", "org", "rst", "tex"]],
+    ["📘", ["doc", "docx", "odt", "pages"]],
+    ["📊", ["xls", "xlsx", "ods", "csv", "tsv", "numbers"]],
+    ["📙", ["ppt", "pptx", "odp", "key"]],
+    ["📚", ["epub", "mobi", "azw3"]],
+    ["💻", [
+        "js", "mjs", "cjs", "ts", "jsx", "tsx", "vue", "svelte", "py", "java", "kt", "go", "rs", "rb", "php",
+        "c", "h", "cpp", "hpp", "cc", "cs", "swift", "m", "scala", "lua", "r", "dart", "sh", "bash", "zsh",
+        "ps1", "bat", "sql", "html", "htm", "css", "scss", "less",
+    ]],
+    ["⚙️", ["json", "yaml", "yml", "toml", "ini", "xml", "conf", "cfg", "env", "lock"]],
+    ["🗜️", ["zip", "rar", "7z", "tar", "gz", "tgz", "bz2", "xz", "zst"]],
+    ["🎵", ["mp3", "wav", "ogg", "flac", "m4a", "aac", "opus", "mid", "midi"]],
+    ["🎬", ["mp4", "webm", "mov", "mkv", "avi", "wmv", "flv", "m4v"]],
+    ["🔤", ["ttf", "otf", "woff", "woff2"]],
+    ["💿", ["exe", "msi", "dmg", "pkg", "deb", "rpm", "apk", "appimage", "iso"]],
+    ["🗄️", ["db", "sqlite", "sqlite3"]],
+];
+
+export const DEFAULT_ICONS: IconMap = Object.fromEntries(
+    ICON_GROUPS.flatMap(([icon, keys]) => keys.map(key => [key, icon]))
+);
+
+/**
+ * 解析用户设置的图标映射，每行一条：`扩展名 = 图标`，多个扩展名用逗号分隔
+ * 例如 `psd, ai = 🎨`、`log = :log:`；图标留空表示不显示图标
+ * @param text 设置文本
+ * @returns 映射及无法解析的行
+ */
+export function parseIconMap(text: string): {icons: IconMap, invalid: string[]} {
+    const icons: IconMap = {};
+    const invalid: string[] = [];
+
+    for (const raw of (text || "").split(/\r?\n/)) {
+        const line = raw.trim();
+        if (!line || line.startsWith("#")) continue;
+
+        const separator = line.indexOf("=");
+        const keys = separator > 0
+            ? line.slice(0, separator).split(",").map(key => key.trim().replace(/^\./, "").toLowerCase())
+            : [];
+        if (keys.length === 0 || keys.some(key => !key)) {
+            invalid.push(line);
+            continue;
+        }
+        const icon = line.slice(separator + 1).trim();
+        for (const key of keys) {
+            icons[key] = icon;
+        }
+    }
+    return {icons, invalid};
+}
+
+/**
+ * 获取节点的图标
+ * @param node 树节点
+ * @param icons 图标映射（默认映射与用户设置合并后的结果）
+ * @returns 图标，不显示图标时为空字符串
+ */
+export function getNodeIcon(node: TreeNode, icons: IconMap): string {
+    if (node.type === "directory") return icons[FOLDER_ICON_KEY] ?? "";
+    if (node.type === "symlink") return icons[SYMLINK_ICON_KEY] ?? "";
+
+    const dot = node.name.lastIndexOf(".");
+    const ext = dot > 0 ? node.name.slice(dot + 1).toLowerCase() : "";
+    return icons[ext] ?? icons[FILE_ICON_KEY] ?? "";
+}
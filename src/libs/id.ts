@@ -0,0 +1,13 @@
+/**
+ * 生成思源风格的时间戳 ID（如 `20240101120000-a1b2c3d`）
+ * 可用作资源目录后缀、数据库及其字段的 ID
+ * @returns ID 字符串
+ */
+export function createTimestampId(): string {
+    const now = new Date();
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const timestamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`
+        + `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+    const random = Math.random().toString(36).slice(2, 9).padEnd(7, '0');
+    return `${timestamp}-${random}`;
+}
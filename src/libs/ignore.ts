@@ -0,0 +1,155 @@
+/**
+ * gitignore 风格的路径匹配器
+ *
+ * 支持的语法：
+ * - 空行和以 `#` 开头的行被忽略
+ * - `!pattern` 取反（重新包含之前被排除的路径）
+ * - `dir/` 仅匹配目录
+ * - 以 `/` 开头或中间含 `/` 的模式相对根目录锚定，否则匹配任意层级的名称
+ * - `*`、`?`、`[abc]`、`**`
+ *
+ * 与 git 相同，最后一条匹配的规则生效。
+ */
+
+interface IgnoreRule {
+    regex: RegExp;        // 编译后的正则
+    negate: boolean;      // 是否为取反规则
+    dirOnly: boolean;     // 是否仅匹配目录
+}
+
+/**
+ * 将多行文本拆分为模式列表（跳过空行和注释）
+ * @param text 原始文本（如 .gitignore 内容或设置项）
+ * @returns 模式列表
+ */
+export function parsePatterns(text: string): string[] {
+    return (text || "")
+        .split(/\r?\n/)
+        .map(line => line.replace(/(?<!\\)\s+$/, ""))
+        .filter(line => line.length > 0 && !line.startsWith("#"));
+}
+
+/**
+ * 将 glob 片段转换为正则表达式源码
+ * @param glob glob 模式（已去掉取反、锚定和目录标记）
+ * @returns 正则源码
+ */
+function globToRegexSource(glob: string): string {
+    let source = "";
+    let i = 0;
+
+    while (i < glob.length) {
+        const char = glob[i];
+
+        if (char === "*") {
+            if (glob[i + 1] === "*") {
+                // `**/` 匹配零或多级目录，其余 `**` 匹配任意字符
+                if (glob[i + 2] === "/") {
+                    source += "(?:.*/)?";
+                    i += 3;
+                } else {
+                    source += ".*";
+                    i += 2;
+                }
+            } else {
+                source += "[^/]*";
+                i++;
+            }
+        } else if (char === "?") {
+            source += "[^/]";
+            i++;
+        } else if (char === "[") {
+            const end = glob.indexOf("]", i + 2);
+            if (end === -1) {
+                source += "\\[";
+                i++;
+            } else {
+                let body = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+                if (body.startsWith("!")) body = "^" + body.slice(1);
+                source += `[${body}]`;
+                i = end + 1;
+            }
+        } else if (char === "\\" && i + 1 < glob.length) {
+            source += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+            i += 2;
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+            i++;
+        }
+    }
+
+    return source;
+}
+
+/**
+ * 编译单条模式
+ * @param pattern 原始模式
+ * @returns 规则，无效模式返回 null
+ */
+function compileRule(pattern: string): IgnoreRule | null {
+    let glob = pattern.trim();
+    let negate = false;
+
+    if (glob.startsWith("!")) {
+        negate = true;
+        glob = glob.slice(1);
+    } else if (glob.startsWith("\\!") || glob.startsWith("\\#")) {
+        glob = glob.slice(1);
+    }
+
+    const dirOnly = glob.endsWith("/");
+    glob = glob.replace(/\/+$/, "");
+    if (!glob) return null;
+
+    const anchored = glob.includes("/");
+    glob = glob.replace(/^\/+/, "");
+
+    const prefix = anchored ? "^" : "^(?:.*/)?";
+    return {
+        regex: new RegExp(prefix + globToRegexSource(glob) + "$"),
+        negate,
+        dirOnly,
+    };
+}
+
+export class IgnoreMatcher {
+    private rules: IgnoreRule[] = [];
+
+    constructor(patterns: string[] = []) {
+        this.add(patterns);
+    }
+
+    /**
+     * 追加规则（后追加的规则优先级更高）
+     * @param patterns 模式列表
+     */
+    add(patterns: string[]): this {
+        for (const pattern of patterns) {
+            const rule = compileRule(pattern);
+            if (rule) this.rules.push(rule);
+        }
+        return this;
+    }
+
+    /** 是否没有任何规则 */
+    get empty(): boolean {
+        return this.rules.length === 0;
+    }
+
+    /**
+     * 判断相对路径是否被忽略
+     * @param relativePath 相对上传根目录的路径（使用 `/` 分隔）
+     * @param isDirectory 是否为目录
+     * @returns 是否应跳过
+     */
+    ignores(relativePath: string, isDirectory: boolean): boolean {
+        let ignored = false;
+        for (const rule of this.rules) {
+            if (rule.dirOnly && !isDirectory) continue;
+            if (rule.regex.test(relativePath)) {
+                ignored = !rule.negate;
+            }
+        }
+        return ignored;
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * 从文件头解析图片尺寸（纯函数，支持 PNG、GIF、BMP、JPEG、WebP）
+ */
+
+// 解析尺寸所需读取的文件头长度：JPEG 的 SOF 段可能位于 EXIF 等元数据之后
+export const IMAGE_HEADER_BYTES = 64 * 1024;
+
+export interface ImageSize {
+    width: number;
+    height: number;
+}
+
+/**
+ * 解析图片尺寸
+ * @param bytes 文件开头的字节
+ * @returns 宽高（像素），无法识别时返回 null
+ */
+export function readImageSize(bytes: Uint8Array): ImageSize | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const ascii = (offset: number, length: number) =>
+        String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+    try {
+        if (ascii(1, 3) === "PNG") {
+            return {width: view.getUint32(16), height: view.getUint32(20)};
+        }
+        if (ascii(0, 4) === "GIF8") {
+            return {width: view.getUint16(6, true), height: view.getUint16(8, true)};
+        }
+        if (ascii(0, 2) === "BM") {
+            return {width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true))};
+        }
+        if (ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") {
+            return readWebpSize(view, ascii(12, 4));
+        }
+        if (bytes[0] === 0xFF && bytes[1] === 0xD8) {
+            return readJpegSize(view);
+        }
+    } catch {
+        // 文件头不完整（DataView 越界）
+    }
+    return null;
+}
+
+/**
+ * 解析 WebP 尺寸（有损 VP8、无损 VP8L、扩展 VP8X）
+ * @param view 文件头
+ * @param chunk 第一个数据块的类型
+ */
+function readWebpSize(view: DataView, chunk: string): ImageSize | null {
+    switch (chunk) {
+        case "VP8 ":
+            return {width: view.getUint16(26, true) & 0x3FFF, height: view.getUint16(28, true) & 0x3FFF};
+        case "VP8L": {
+            const bits = view.getUint32(21, true);
+            return {width: (bits & 0x3FFF) + 1, height: ((bits >> 14) & 0x3FFF) + 1};
+        }
+        case "VP8X":
+            return {
+                width: (view.getUint32(24, true) & 0xFFFFFF) + 1,
+                height: (view.getUint32(27, true) & 0xFFFFFF) + 1,
+            };
+        default:
+            return null;
+    }
+}
+
+/**
+ * 解析 JPEG 尺寸：逐段跳过，直到帧头（SOF）段
+ * @param view 文件头
+ */
+function readJpegSize(view: DataView): ImageSize | null {
+    let offset = 2;
+    while (offset + 9 < view.byteLength) {
+        if (view.getUint8(offset) !== 0xFF) return null;
+
+        const marker = view.getUint8(offset + 1);
+        // SOF0-SOF15，排除 DHT(C4)、JPG(C8)、DAC(CC)
+        if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+            return {width: view.getUint16(offset + 7), height: view.getUint16(offset + 5)};
+        }
+        offset += 2 + view.getUint16(offset + 2);
+    }
+    return null;
+}
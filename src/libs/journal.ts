@@ -0,0 +1,74 @@
+/**
+ * 上传任务日志：记录进行中的上传任务，思源在上传途中关闭或重载后可以继续或放弃。
+ * 每完成一批文件即写入插件存储。
+ */
+import { Plugin } from "siyuan";
+import type { OutputFormat } from "./render";
+
+const JOURNAL_FILE = "upload-journal.json";
+
+export interface UploadJob {
+    id: string;
+    dirPath: string;                           // 源目录
+    blockId: string;                           // 目录树插入位置
+    extraPatterns: string[];                   // 本次上传额外的忽略模式
+    assetsDir: string | null;                  // 镜像模式下的资源根目录
+    format: OutputFormat;                      // 输出格式
+    markdownRoot: string | null;               // Markdown 文件导入位置
+    files: string[];                           // 本次选中的全部文件（含作为文档导入的 Markdown 文件）
+    excluded: string[];                        // 预览中被排除的相对路径
+    completed: Record<string, string>;         // 已完成的文件 → 资源地址（含复用的已有资源）
+    pending: string[];                         // 尚未上传的文件
+    uploaded: string[];                        // 本任务新上传的资源地址（放弃任务时删除）
+    startedAt: number;
+}
+
+export class UploadJournal {
+    private plugin: Plugin;
+    private jobs: UploadJob[] = [];
+
+    constructor(plugin: Plugin) {
+        this.plugin = plugin;
+    }
+
+    /** 从插件存储加载任务日志 */
+    async load(): Promise<void> {
+        const data = await this.plugin.loadData(JOURNAL_FILE);
+        this.jobs = Array.isArray(data?.jobs) ? data.jobs : [];
+    }
+
+    /** 未完成的任务 */
+    list(): UploadJob[] {
+        return [...this.jobs];
+    }
+
+    /**
+     * 新增或更新任务并保存
+     * @param job 任务
+     */
+    async save(job: UploadJob): Promise<void> {
+        const index = this.jobs.findIndex(item => item.id === job.id);
+        if (index === -1) {
+            this.jobs.push(job);
+        } else {
+            this.jobs[index] = job;
+        }
+        await this.persist();
+    }
+
+    /**
+     * 移除任务并保存
+     * @param id 任务 ID
+     */
+    async remove(id: string): Promise<void> {
+        const count = this.jobs.length;
+        this.jobs = this.jobs.filter(job => job.id !== id);
+        if (this.jobs.length !== count) {
+            await this.persist();
+        }
+    }
+
+    private async persist(): Promise<void> {
+        await this.plugin.saveData(JOURNAL_FILE, {jobs: this.jobs});
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * 上传清单存储：每个目录树的清单单独保存在插件存储中（以目录树块 ID 命名），
+ * 不写入块属性，避免大目录（尤其是仅链接模式）的清单撑大块属性和文档文件。
+ */
+import { Plugin } from "siyuan";
+import { ManifestEntry, parseManifest, serializeManifest } from "./manifest";
+
+const MANIFEST_PREFIX = "manifest-";
+
+export class ManifestStore {
+    private plugin: Plugin;
+
+    constructor(plugin: Plugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * 读取目录树的清单
+     * @param treeBlockId 目录树块 ID
+     * @returns 清单，不存在或格式错误时返回空数组
+     */
+    async load(treeBlockId: string): Promise<ManifestEntry[]> {
+        const data = await this.plugin.loadData(this.fileName(treeBlockId));
+        return parseManifest(typeof data?.manifest === "string" ? data.manifest : undefined);
+    }
+
+    /**
+     * 保存目录树的清单
+     * @param treeBlockId 目录树块 ID
+     * @param manifest 清单
+     */
+    async save(treeBlockId: string, manifest: ManifestEntry[]): Promise<void> {
+        await this.plugin.saveData(this.fileName(treeBlockId), {manifest: serializeManifest(manifest)});
+    }
+
+    /**
+     * 删除目录树的清单
+     * @param treeBlockId 目录树块 ID
+     */
+    async remove(treeBlockId: string): Promise<void> {
+        await this.plugin.removeData(this.fileName(treeBlockId));
+    }
+
+    private fileName(treeBlockId: string): string {
+        return `${MANIFEST_PREFIX}${treeBlockId}.json`;
+    }
+}
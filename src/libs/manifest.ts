@@ -0,0 +1,192 @@
+/**
+ * 上传清单：记录已插入目录树中每个文件的相对路径、大小、修改时间和资源地址，
+ * 按目录树块保存在插件存储中（见 manifest-store.ts），用于重新同步时只上传变化的文件。
+ */
+import { summarizeTree } from "./tree";
+
+export interface ManifestEntry {
+    path: string;      // 相对上传根目录的路径（`/` 分隔）
+    size: number;      // 文件大小（字节）
+    mtime: number;     // 修改时间（毫秒时间戳）
+    url: string;       // 上传后的资源地址
+    deleted?: boolean; // 源文件已删除（监视中的目录树保留条目并标记为已删除）
+}
+
+// 序列化时使用短键名，减小块属性体积；已删除的条目多一个标记位
+type CompactEntry = [string, number, number, string] | [string, number, number, string, 1];
+
+/**
+ * 遍历目录树，生成带相对路径的文件节点列表
+ * @param tree 目录树
+ * @param prefix 当前相对路径前缀
+ * @param result 结果数组（递归时复用）
+ * @returns [相对路径, 文件节点] 列表
+ */
+export function listFilesWithPath(
+    tree: TreeNode[],
+    prefix = "",
+    result: Array<[string, TreeNode]> = []
+): Array<[string, TreeNode]> {
+    for (const node of tree) {
+        const relativePath = prefix ? `${prefix}/${node.name}` : node.name;
+        if (node.type === "file") {
+            result.push([relativePath, node]);
+        } else if (node.type === "directory" && node.children) {
+            listFilesWithPath(node.children, relativePath, result);
+        }
+    }
+    return result;
+}
+
+/**
+ * 收集在预览中被排除的节点的相对路径（整个目录被排除时只记录目录本身）
+ * @param tree 扫描得到的目录树
+ * @param excluded 被排除的节点
+ * @param prefix 当前相对路径前缀
+ * @param result 结果数组（递归时复用）
+ * @returns 相对路径列表
+ */
+export function listExcludedPaths(
+    tree: TreeNode[],
+    excluded: Set<TreeNode>,
+    prefix = "",
+    result: string[] = []
+): string[] {
+    for (const node of tree) {
+        const relativePath = prefix ? `${prefix}/${node.name}` : node.name;
+        if (excluded.has(node)) {
+            result.push(relativePath);
+        } else if (node.type === "directory" && node.children) {
+            listExcludedPaths(node.children, excluded, relativePath, result);
+        }
+    }
+    return result;
+}
+
+/**
+ * 移除相对路径被排除的节点（被排除目录下新增的文件一并移除），返回新的目录树
+ * @param tree 最新扫描得到的目录树
+ * @param excluded 被排除的相对路径
+ * @param prefix 当前相对路径前缀
+ * @returns 裁剪后的目录树
+ */
+export function removeExcludedPaths(tree: TreeNode[], excluded: Set<string>, prefix = ""): TreeNode[] {
+    if (excluded.size === 0) return tree;
+    const result: TreeNode[] = [];
+    for (const node of tree) {
+        const relativePath = prefix ? `${prefix}/${node.name}` : node.name;
+        if (excluded.has(relativePath)) continue;
+        if (node.type === "directory" && node.children) {
+            // 重新汇总裁剪后目录的文件数和总大小
+            const children = removeExcludedPaths(node.children, excluded, relativePath);
+            const {count, size} = summarizeTree(children);
+            result.push({...node, children, fileCount: count, size});
+        } else {
+            result.push(node);
+        }
+    }
+    return result;
+}
+
+/**
+ * 根据已上传的目录树生成清单（仅包含上传成功的文件）
+ * @param tree 已回填 URL 的目录树
+ * @returns 清单
+ */
+export function createManifest(tree: TreeNode[]): ManifestEntry[] {
+    return listFilesWithPath(tree)
+        .filter(([, node]) => node.url)
+        .map(([relativePath, node]) => ({
+            path: relativePath,
+            size: node.size || 0,
+            mtime: Math.floor(node.mtime || 0),
+            url: node.url,
+            ...(node.deleted ? {deleted: true} : {}),
+        }));
+}
+
+/** 序列化清单为块属性值 */
+export function serializeManifest(manifest: ManifestEntry[]): string {
+    const compact: CompactEntry[] = manifest.map(entry => entry.deleted
+        ? [entry.path, entry.size, entry.mtime, entry.url, 1]
+        : [entry.path, entry.size, entry.mtime, entry.url]
+    );
+    return JSON.stringify(compact);
+}
+
+/**
+ * 解析块属性中的清单
+ * @param value 块属性值
+ * @returns 清单，格式错误时返回空数组
+ */
+export function parseManifest(value: string | undefined): ManifestEntry[] {
+    if (!value) return [];
+    try {
+        const compact = JSON.parse(value) as CompactEntry[];
+        if (!Array.isArray(compact)) return [];
+        return compact
+            .filter(item => Array.isArray(item) && (item.length === 4 || item.length === 5))
+            .map(([entryPath, size, mtime, url, deleted]) => ({path: entryPath, size, mtime, url, ...(deleted ? {deleted: true} : {})}));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * 对比清单与最新扫描结果
+ * @param tree 最新扫描得到的目录树
+ * @param manifest 上次保存的清单
+ * @returns 可复用的 URL（文件路径 → URL）、需要上传的文件路径、
+ *          本次新删除的相对路径、磁盘上不存在的全部条目（包括之前已标记为删除的）、
+ *          修改后需要重新上传的文件原来的 URL
+ */
+export function diffManifest(tree: TreeNode[], manifest: ManifestEntry[]): {
+    reused: Map<string, string>,
+    changed: string[],
+    removed: string[],
+    deleted: ManifestEntry[],
+    replaced: string[],
+} {
+    const known = new Map(manifest.map(entry => [entry.path, entry]));
+    const reused = new Map<string, string>();
+    const changed: string[] = [];
+    const replaced: string[] = [];
+
+    for (const [relativePath, node] of listFilesWithPath(tree)) {
+        if (!node.filePath) continue;
+        const entry = known.get(relativePath);
+        known.delete(relativePath);
+
+        if (entry && entry.size === (node.size || 0) && entry.mtime === Math.floor(node.mtime || 0)) {
+            reused.set(node.filePath, entry.url);
+        } else {
+            changed.push(node.filePath);
+            if (entry) replaced.push(entry.url);
+        }
+    }
+
+    const deleted = [...known.values()];
+    return {reused, changed, removed: deleted.filter(entry => !entry.deleted).map(entry => entry.path), deleted, replaced};
+}
+
+/**
+ * 将已删除的条目作为标记为删除的文件节点加回目录树（缺少的目录一并创建），保留原来的资源地址
+ * @param tree 最新扫描得到的目录树（原地修改）
+ * @param entries 磁盘上已不存在的清单条目
+ */
+export function addDeletedEntries(tree: TreeNode[], entries: ManifestEntry[]): void {
+    for (const entry of entries) {
+        const segments = entry.path.split("/");
+        const name = segments.pop();
+        let nodes = tree;
+        for (const segment of segments) {
+            let dir = nodes.find(node => node.type === "directory" && node.name === segment);
+            if (!dir) {
+                dir = {name: segment, type: "directory", children: []};
+                nodes.push(dir);
+            }
+            nodes = dir.children || (dir.children = []);
+        }
+        nodes.push({name, type: "file", size: entry.size, mtime: entry.mtime || undefined, url: entry.url, deleted: true});
+    }
+}
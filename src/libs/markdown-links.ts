@@ -0,0 +1,75 @@
+/**
+ * 改写 Markdown 中的相对链接（导入本地 Markdown 文件时使用）
+ *
+ * - 图片和普通文件链接改写为上传后的资源地址
+ * - 指向其他 Markdown 文件的链接改写为块引用 `((id "锚文本"))`
+ * - 代码块、行内代码、带协议的地址和页内锚点保持不变
+ */
+
+// 相对链接的解析结果
+export interface LinkTarget {
+    url?: string;                              // 上传后的资源地址
+    docId?: string;                            // 导入后的文档 ID
+}
+
+// 行内代码，或图片 / 链接：![alt](target "title") / [text](<target>)
+const INLINE_PATTERN = /(`+)[^`]*?\1|(!?)\[([^\]]*)\]\(\s*(<[^>]*>|[^)\s]+)(\s+"[^"]*")?\s*\)/g;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+
+/**
+ * 提取可解析的相对路径（去掉尖括号、查询参数和锚点并解码）
+ * @param target 链接地址
+ * @returns 相对路径，绝对地址或页内锚点返回 null
+ */
+function toRelativePath(target: string): string | null {
+    const raw = target.startsWith("<") ? target.slice(1, -1) : target;
+    if (!raw || raw.startsWith("#") || raw.startsWith("/") || SCHEME_PATTERN.test(raw)) {
+        return null;
+    }
+
+    const pathPart = raw.split(/[?#]/)[0];
+    try {
+        return decodeURIComponent(pathPart);
+    } catch {
+        return pathPart;
+    }
+}
+
+/**
+ * 改写 Markdown 中的相对链接
+ * @param markdown Markdown 原文
+ * @param resolve 将相对路径解析为资源地址或文档 ID，无法解析时返回 null
+ * @returns 改写后的 Markdown
+ */
+export function rewriteRelativeLinks(
+    markdown: string,
+    resolve: (relativePath: string) => LinkTarget | null
+): string {
+    let inFence = false;
+
+    return markdown.split("\n").map((line) => {
+        if (FENCE_PATTERN.test(line)) {
+            inFence = !inFence;
+            return line;
+        }
+        if (inFence) return line;
+
+        return line.replace(INLINE_PATTERN, (match, code, bang, text, target, title = "") => {
+            if (code) return match;
+
+            const relativePath = toRelativePath(target);
+            const resolved = relativePath ? resolve(relativePath) : null;
+            if (!resolved) return match;
+
+            if (resolved.docId && !bang) {
+                const anchor = text.replace(/"/g, "&quot;");
+                return anchor ? `((${resolved.docId} "${anchor}"))` : `((${resolved.docId}))`;
+            }
+            if (resolved.url) {
+                return `${bang}[${text}](${resolved.url}${title})`;
+            }
+            return match;
+        });
+    }).join("\n");
+}
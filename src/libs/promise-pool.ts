@@ -30,8 +30,27 @@ export default class PromiseLimitPool<T> {
             }
         });
         this.promises.push(promise);
+        // Release settled promises so a long-lived pool does not keep every task it has run.
+        const release = () => {
+            const index = this.promises.indexOf(promise);
+            if (index !== -1) this.promises.splice(index, 1);
+        };
+        promise.then(release, release);
     }
 
+    /**
+     * Changes the concurrency limit; queued tasks start immediately if the limit grows.
+     */
+    setMaxConcurrent(maxConcurrent: number): void {
+        this.maxConcurrent = maxConcurrent;
+        while (this.queue.length > 0 && this.currentRunning < this.maxConcurrent) {
+            this.next();
+        }
+    }
+
+    /**
+     * Waits for the tasks that have not settled yet.
+     */
     async awaitAll(): Promise<T[]> {
         return Promise.all(this.promises);
     }
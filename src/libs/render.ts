@@ -0,0 +1,412 @@
+/**
+ * 目录树渲染器：以 TreeNode 为统一输入，输出不同格式的 Markdown
+ */
+import { formatSize } from "./format";
+import { DEFAULT_ICONS, FOLDER_ICON_KEY, IconMap, getNodeIcon } from "./icons";
+import { EmbedOptions, codeFence, getCodeLanguage, getMediaKind } from "./embed";
+
+// 输出格式
+export type OutputFormat = "list" | "ascii" | "table" | "headings" | "database";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["list", "ascii", "table", "headings", "database"];
+
+// 列表项模板的默认值（只显示图标和名称）
+export const DEFAULT_ITEM_TEMPLATE = "{icon} {link}";
+
+// 渲染所需的上下文（根目录名与本地化文本）
+export interface RenderContext {
+    rootName: string;
+    archiveUrl?: string;                       // 归档模式下整个文件夹压缩包的地址
+    template?: string;                         // 列表项模板（列表、标题格式与目录文档），默认 DEFAULT_ITEM_TEMPLATE
+    icons?: IconMap;                           // 图标映射（所有格式共用），默认 DEFAULT_ICONS
+    embed?: EmbedOptions;                      // 内联嵌入（列表、标题格式与目录文档），默认不嵌入
+    unknownTarget: string;                     // 符号链接目标未知时的占位文本
+    fileCount: string;                         // 目录文件数的文本，如 `${count} 个文件`
+    deleted: string;                           // 已删除文件的标记文本（ASCII 格式）
+    columns: {                                 // 表格 / 数据库列名
+        name: string;
+        path: string;
+        size: string;
+        modified: string;
+        link: string;
+    };
+}
+
+// 标题格式从二级标题开始，最深到六级，更深的目录降级为加粗段落
+const HEADING_BASE_LEVEL = 2;
+const HEADING_MAX_LEVEL = 6;
+
+/**
+ * 按格式渲染目录树
+ * @param tree 目录树
+ * @param format 输出格式（数据库格式需调用 renderDatabasePlaceholder）
+ * @param context 渲染上下文
+ * @returns Markdown 文本
+ */
+export function renderTree(tree: TreeNode[], format: Exclude<OutputFormat, "database">, context: RenderContext): string {
+    switch (format) {
+        case "ascii":
+            return withArchiveLink(renderAscii(tree, context), context);
+        case "table":
+            return withArchiveLink(renderTable(tree, context), context);
+        case "headings":
+            return renderHeadings(tree, context);
+        default:
+            return renderList(tree, context);
+    }
+}
+
+/**
+ * 列表格式：带图标的嵌套无序列表
+ * @param tree 目录树
+ * @param context 渲染上下文
+ * @param indent 缩进层级
+ * @returns Markdown 文本
+ */
+export function renderList(tree: TreeNode[], context: RenderContext, indent = 0): string {
+    const lines: string[] = [];
+
+    if (indent === 0) {
+        lines.push(`- ${renderRootLabel(context)}`);
+    }
+
+    for (const node of tree) {
+        renderListNode(node, indent, lines, context);
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * 渲染单个列表节点（直接传入 lines 数组引用）
+ * @param node 树节点
+ * @param indent 缩进层级
+ * @param lines Markdown 行数组
+ * @param context 渲染上下文
+ */
+function renderListNode(node: TreeNode, indent: number, lines: string[], context: RenderContext): void {
+    lines.push(...renderListItem(node, context, "  ".repeat(indent + 1)));
+    if (node.type === "directory" && node.children?.length) {
+        lines.push(renderList(node.children, context, indent + 1));
+    }
+}
+
+/**
+ * 渲染列表项：节点本身一行，嵌入的音视频块或代码块作为列表项的子块
+ * @param node 树节点
+ * @param context 渲染上下文
+ * @param indent 列表项的缩进
+ * @returns Markdown 行
+ */
+function renderListItem(node: TreeNode, context: RenderContext, indent: string): string[] {
+    const lines = [`${indent}- ${renderItem(node, context)}`];
+    for (const line of renderEmbedBlock(node, context)) {
+        lines.push(line ? `${indent}  ${line}` : "");
+    }
+    return lines;
+}
+
+/**
+ * 渲染文件的嵌入块：音频 / 视频为思源音视频块，小文本文件为代码块
+ * @param node 树节点
+ * @param context 渲染上下文
+ * @returns Markdown 行（未缩进），不嵌入时为空数组
+ */
+function renderEmbedBlock(node: TreeNode, context: RenderContext): string[] {
+    const {embed} = context;
+    if (!embed || node.type !== "file" || !node.url || node.deleted) return [];
+
+    const kind = getMediaKind(node);
+    if (embed.media && (kind === "audio" || kind === "video")) {
+        // HTML 块不能打断段落，前面需要空行
+        return ["", `<${kind} controls="controls" src="${node.url}"></${kind}>`];
+    }
+    if (embed.code && node.content !== undefined) {
+        const fence = codeFence(node.content);
+        const body = node.content.replace(/\r\n/g, "\n").replace(/\n$/, "");
+        return [`${fence}${getCodeLanguage(node.name) || ""}`, ...body.split("\n"), fence];
+    }
+    return [];
+}
+
+/**
+ * 渲染根目录名称：归档模式下显示为压缩包下载链接
+ * @param context 渲染上下文
+ * @param bold 是否加粗（标题中不需要）
+ * @returns 行内 Markdown
+ */
+function renderRootLabel(context: RenderContext, bold = true): string {
+    const name = context.archiveUrl ? `[${context.rootName}](${context.archiveUrl})` : context.rootName;
+    const icon = context.archiveUrl ? "📦" : (context.icons || DEFAULT_ICONS)[FOLDER_ICON_KEY];
+    return withIcon(icon, bold ? `**${name}**` : name);
+}
+
+/**
+ * 为没有根目录行的格式（ASCII、表格）补充压缩包下载链接，并包裹在超级块中
+ * @param markdown 渲染结果
+ * @param context 渲染上下文
+ * @returns Markdown 文本
+ */
+function withArchiveLink(markdown: string, context: RenderContext): string {
+    if (!context.archiveUrl) return markdown;
+    return ["{{{row", renderRootLabel(context), "", markdown, "}}}"].join("\n");
+}
+
+/**
+ * 按列表项模板渲染节点的行内内容
+ * @param node 树节点
+ * @param context 渲染上下文
+ * @returns 行内 Markdown
+ */
+function renderItem(node: TreeNode, context: RenderContext): string {
+    return applyTemplate(context.template || DEFAULT_ITEM_TEMPLATE, {
+        icon: nodeIcon(node, context),
+        link: renderLink(node, context),
+        name: node.name,
+        size: node.size !== undefined ? formatSize(node.size) : "",
+        mtime: formatDate(node.mtime),
+        mime: node.mime || "",
+        dimensions: node.width && node.height ? `${node.width}×${node.height}` : "",
+        count: node.fileCount !== undefined ? context.fileCount.replace("${count}", String(node.fileCount)) : "",
+    });
+}
+
+/** 节点图标（按扩展名，用户设置优先） */
+function nodeIcon(node: TreeNode, context: RenderContext): string {
+    return getNodeIcon(node, context.icons || DEFAULT_ICONS);
+}
+
+/** 在文本前加上图标（图标为空时原样返回） */
+function withIcon(icon: string, text: string): string {
+    return icon ? `${icon} ${text}` : text;
+}
+
+/**
+ * 渲染节点名称：目录加粗，文件链接到上传后的地址（已删除的文件加删除线），符号链接显示目标
+ * @param node 树节点
+ * @param context 渲染上下文
+ * @returns 行内 Markdown
+ */
+function renderLink(node: TreeNode, context: RenderContext): string {
+    if (node.type === "directory") {
+        return `**${node.name}**`;
+    }
+    if (node.type === "symlink") {
+        const target = node.linkTarget || context.unknownTarget;
+        return `${node.name} → \`${target}\``;
+    }
+    if (node.deleted) {
+        return node.url ? `~~[${node.name}](${node.url})~~` : `~~${node.name}~~`;
+    }
+    if (node.url && isEmbeddedImage(node, context)) {
+        return `![${node.name}](${node.url})`;
+    }
+    return node.url ? `[${node.name}](${node.url})` : `\`${node.name}\``;
+}
+
+/** 图片是否渲染为缩略图（开启嵌入且未超过大小上限） */
+function isEmbeddedImage(node: TreeNode, context: RenderContext): boolean {
+    const {embed} = context;
+    if (!embed?.images || getMediaKind(node) !== "image") return false;
+    return embed.imageMaxSize === 0 || (node.size || 0) <= embed.imageMaxSize;
+}
+
+/**
+ * 填充模板中的 `{字段}` 占位符
+ * 值为空的占位符连同其后的文本一起省略，其前的文本只在后面还有非空值时输出，
+ * 因此 `{link} — {size}, {mtime}` 在没有修改时间时渲染为 `名称 — 大小`
+ * @param template 模板
+ * @param values 字段值（未知字段原样保留）
+ * @returns 填充后的文本
+ */
+export function applyTemplate(template: string, values: Record<string, string>): string {
+    const parts = template.split(/\{(\w+)\}/);
+    let output = "";
+    let pending = parts[0];
+    let lastEmpty = false;
+
+    for (let i = 1; i < parts.length; i += 2) {
+        const field = parts[i];
+        const value = field in values ? values[field] : `{${field}}`;
+        const text = parts[i + 1];
+
+        if (value) {
+            output += pending + value;
+            pending = text;
+            lastEmpty = false;
+        } else {
+            // 空值后的文本属于这个字段（如右括号或分隔符），一并省略
+            lastEmpty = true;
+        }
+    }
+    if (!lastEmpty) {
+        output += pending;
+    }
+    return output;
+}
+
+/**
+ * 渲染同一目录下的文件和符号链接列表（不含子目录），用于导入为文档时的目录文档内容
+ * @param nodes 同一目录下的节点
+ * @param context 渲染上下文
+ * @returns Markdown 文本
+ */
+export function renderLeafList(nodes: TreeNode[], context: RenderContext): string {
+    return nodes
+        .filter(node => node.type !== "directory")
+        .flatMap(node => renderListItem(node, context, ""))
+        .join("\n");
+}
+
+/**
+ * ASCII 格式：`tree` 命令风格的代码块，其后列出文件链接（与代码块一起包裹在超级块中）
+ * @param tree 目录树
+ * @param context 渲染上下文
+ * @returns Markdown 文本
+ */
+export function renderAscii(tree: TreeNode[], context: RenderContext): string {
+    const lines: string[] = [context.rootName];
+
+    const walk = (nodes: TreeNode[], prefix: string) => {
+        nodes.forEach((node, index) => {
+            const last = index === nodes.length - 1;
+            const label = withIcon(nodeIcon(node, context), node.type === "symlink"
+                ? `${node.name} -> ${node.linkTarget || context.unknownTarget}`
+                : node.type === "directory" ? `${node.name}/`
+                : node.deleted ? `${node.name} (${context.deleted})` : node.name);
+            lines.push(`${prefix}${last ? "└── " : "├── "}${label}`);
+            if (node.type === "directory" && node.children?.length) {
+                walk(node.children, prefix + (last ? "    " : "│   "));
+            }
+        });
+    };
+    walk(tree, "");
+    const code = ["```text", ...lines, "```"].join("\n");
+
+    // 代码块中不能放链接：在其后列出文件链接，使上传的资源被文档引用（归档模式已链接压缩包）
+    const links = context.archiveUrl ? [] : listLeaves(tree)
+        .filter(([, node]) => node.type === "file" && node.url)
+        .map(([relativePath, node]) => node.deleted
+            ? `- ~~[${relativePath}](${node.url})~~`
+            : `- [${relativePath}](${node.url})`);
+    if (links.length === 0) return code;
+    return ["{{{row", code, "", ...links, "}}}"].join("\n");
+}
+
+/**
+ * 表格格式：每个文件一行，包含名称、相对路径、大小、修改时间和链接
+ * @param tree 目录树
+ * @param context 渲染上下文
+ * @returns Markdown 文本
+ */
+export function renderTable(tree: TreeNode[], context: RenderContext): string {
+    const {columns} = context;
+    const lines = [
+        `| ${columns.name} | ${columns.path} | ${columns.size} | ${columns.modified} | ${columns.link} |`,
+        "| --- | --- | --- | --- | --- |",
+    ];
+
+    for (const [relativePath, node] of listLeaves(tree)) {
+        const link = node.type === "symlink"
+            ? `\`${escapeCell(node.linkTarget || context.unknownTarget)}\``
+            : node.url ? `[${escapeCell(node.name)}](${node.url})` : "";
+        const name = escapeCell(withIcon(nodeIcon(node, context), node.name));
+        lines.push(`| ${node.deleted ? `~~${name}~~` : name} | ${escapeCell(relativePath)} | ${
+            node.size !== undefined ? formatSize(node.size) : ""
+        } | ${formatDate(node.mtime)} | ${link} |`);
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * 标题格式：每个目录一个标题，目录下的文件作为列表紧随其后
+ * 整体包裹在超级块中，保证插入后只占一个块
+ * @param tree 目录树
+ * @param context 渲染上下文
+ * @returns Markdown 文本
+ */
+export function renderHeadings(tree: TreeNode[], context: RenderContext): string {
+    const sections: string[] = [];
+
+    const walk = (name: string, nodes: TreeNode[], depth: number) => {
+        const level = HEADING_BASE_LEVEL + depth;
+        const folderIcon = (context.icons || DEFAULT_ICONS)[FOLDER_ICON_KEY];
+        const label = depth === 0 ? renderRootLabel(context, false) : withIcon(folderIcon, name);
+        sections.push(level <= HEADING_MAX_LEVEL
+            ? `${"#".repeat(level)} ${label}`
+            : `**${label}**`);
+
+        const leaves = nodes.filter(node => node.type !== "directory");
+        if (leaves.length > 0) {
+            sections.push(leaves.flatMap(node => renderListItem(node, context, "")).join("\n"));
+        }
+        for (const node of nodes) {
+            if (node.type === "directory") {
+                walk(node.name, node.children || [], depth + 1);
+            }
+        }
+    };
+    walk(context.rootName, tree, 0);
+
+    return ["{{{row", sections.join("\n\n"), "}}}"].join("\n");
+}
+
+/**
+ * 数据库格式的占位块：插入后由调用方通过数据库 API 填充列和行
+ * @param avID 新数据库的 ID
+ * @returns Markdown 文本
+ */
+export function renderDatabasePlaceholder(avID: string): string {
+    return `<div data-type="NodeAttributeView" data-av-id="${avID}" data-av-type="table"></div>`;
+}
+
+/**
+ * 从数据库块的 kramdown 中读取数据库 ID
+ * @param kramdown 块的 kramdown 文本
+ * @returns 数据库 ID，不是数据库块时返回 null
+ */
+export function parseDatabaseAvID(kramdown: string): string | null {
+    return /data-type="NodeAttributeView"[^>]*data-av-id="([^"]+)"/.exec(kramdown)?.[1] ?? null;
+}
+
+/**
+ * 列出所有文件和符号链接及其相对路径
+ * @param tree 目录树
+ * @param prefix 当前相对路径前缀
+ * @param result 结果数组（递归时复用）
+ * @returns [相对路径, 节点] 列表
+ */
+export function listLeaves(
+    tree: TreeNode[],
+    prefix = "",
+    result: Array<[string, TreeNode]> = []
+): Array<[string, TreeNode]> {
+    for (const node of tree) {
+        const relativePath = prefix ? `${prefix}/${node.name}` : node.name;
+        if (node.type === "directory") {
+            listLeaves(node.children || [], relativePath, result);
+        } else {
+            result.push([relativePath, node]);
+        }
+    }
+    return result;
+}
+
+/**
+ * 格式化修改时间为 `YYYY-MM-DD HH:mm`
+ * @param mtime 毫秒时间戳
+ * @returns 日期字符串，未知时返回空字符串
+ */
+export function formatDate(mtime?: number): string {
+    if (!mtime) return "";
+    const date = new Date(mtime);
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} `
+        + `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/** 转义表格单元格中的竖线 */
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, "\\|");
+}
@@ -0,0 +1,57 @@
+/**
+ * 带指数退避的重试（上传请求等可能因网络或服务端临时错误失败的操作）
+ */
+
+export interface RetryOptions {
+    retries: number;                           // 首次失败后的最大重试次数
+    baseDelay: number;                         // 第一次重试前的等待时间（毫秒），之后每次翻倍
+    signal?: AbortSignal;                      // 取消后不再重试，等待中立即结束
+    onRetry?: (err: unknown, attempt: number, delay: number) => void;
+}
+
+/**
+ * 等待指定时间，取消时提前结束
+ * @param ms 毫秒
+ * @param signal 取消信号
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        if (signal?.aborted) {
+            resolve();
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, {once: true});
+    });
+}
+
+/**
+ * 执行操作，失败时按指数退避重试
+ * @param fn 操作
+ * @param options 重试选项
+ * @returns 操作结果
+ * @throws 重试次数用完或已取消时抛出最后一次的错误
+ */
+export async function retryWithBackoff<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+    const {retries, baseDelay, signal, onRetry} = options;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (err) {
+            if (attempt >= retries || signal?.aborted) throw err;
+
+            const delay = baseDelay * 2 ** attempt;
+            onRetry?.(err, attempt + 1, delay);
+            await sleep(delay, signal);
+            if (signal?.aborted) throw err;
+        }
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * 目录树工具函数（纯函数，不依赖 Node.js 模块）
+ */
+
+/**
+ * 收集树中所有文件节点的路径
+ * @param tree 目录树
+ * @param result 结果数组（递归时复用）
+ * @returns 文件路径列表
+ */
+export function collectFilePaths(tree: TreeNode[], result: string[] = []): string[] {
+    for (const node of tree) {
+        if (node.type === "file" && node.filePath) {
+            result.push(node.filePath);
+        } else if (node.type === "directory" && node.children) {
+            collectFilePaths(node.children, result);
+        }
+    }
+    return result;
+}
+
+/**
+ * 收集树中上传失败（有路径但没有地址）的文件路径
+ * @param tree 目录树
+ * @param result 结果数组（递归时复用）
+ * @returns 文件路径列表
+ */
+export function collectFailedPaths(tree: TreeNode[], result: string[] = []): string[] {
+    for (const node of tree) {
+        if (node.type === "file" && node.filePath && !node.url) {
+            result.push(node.filePath);
+        } else if (node.type === "directory" && node.children) {
+            collectFailedPaths(node.children, result);
+        }
+    }
+    return result;
+}
+
+/**
+ * 统计树中的文件数量与总大小
+ * @param tree 目录树
+ * @param excluded 被排除的节点（不计入统计）
+ * @returns 文件数量与总字节数
+ */
+export function summarizeTree(tree: TreeNode[], excluded?: Set<TreeNode>): {count: number, size: number} {
+    let count = 0;
+    let size = 0;
+    for (const node of tree) {
+        if (excluded?.has(node)) continue;
+        if (node.type === "file") {
+            count++;
+            size += node.size || 0;
+        } else if (node.type === "directory" && node.children) {
+            const sub = summarizeTree(node.children, excluded);
+            count += sub.count;
+            size += sub.size;
+        }
+    }
+    return {count, size};
+}
+
+/**
+ * 遍历节点及其所有后代
+ * @param node 起始节点
+ * @param visit 访问函数
+ */
+export function walkNode(node: TreeNode, visit: (node: TreeNode) => void): void {
+    visit(node);
+    if (node.children) {
+        for (const child of node.children) {
+            walkNode(child, visit);
+        }
+    }
+}
+
+/**
+ * 移除被排除的节点，返回新的目录树（不修改原树）
+ * @param tree 目录树
+ * @param excluded 被排除的节点
+ * @returns 裁剪后的目录树
+ */
+export function pruneTree(tree: TreeNode[], excluded: Set<TreeNode>): TreeNode[] {
+    const result: TreeNode[] = [];
+    for (const node of tree) {
+        if (excluded.has(node)) continue;
+        if (node.type === "directory" && node.children) {
+            // 重新汇总裁剪后目录的文件数和总大小
+            const children = pruneTree(node.children, excluded);
+            const {count, size} = summarizeTree(children);
+            result.push({...node, children, fileCount: count, size});
+        } else {
+            result.push(node);
+        }
+    }
+    return result;
+}
+
+/**
+ * 收集树中所有文件的大小
+ * @param tree 目录树
+ * @param result 结果映射（递归时复用）
+ * @returns 文件路径到字节数的映射
+ */
+export function collectFileSizes(tree: TreeNode[], result = new Map<string, number>()): Map<string, number> {
+    for (const node of tree) {
+        if (node.type === "file" && node.filePath) {
+            result.set(node.filePath, node.size || 0);
+        } else if (node.type === "directory" && node.children) {
+            collectFileSizes(node.children, result);
+        }
+    }
+    return result;
+}
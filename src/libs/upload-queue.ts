@@ -0,0 +1,279 @@
+/**
+ * 上传队列：每次上传（文件夹、单个文件、重新同步……）作为一个任务排队执行，
+ * 按设置的并发数同时运行。每个任务有独立的取消控制器、失败列表、统计和进度，互不干扰。
+ */
+import { writable, type Readable, type Writable } from "svelte/store";
+import PromiseLimitPool from "./promise-pool";
+import { createTimestampId } from "./id";
+import type { UploadJob } from "./journal";
+
+// 任务状态
+export type TaskState = "queued" | "running" | "done" | "failed" | "canceled";
+
+// 失败文件的重试：只上传这些文件，并修补已插入的目录树或链接
+export interface FailedRetry {
+    files: string[];                           // 可重试的失败文件
+    run: TaskRunner;
+}
+
+export interface UploadTask {
+    id: string;
+    title: string;                             // 显示名称（根目录名或选中内容的说明）
+    background: boolean;                       // 后台任务（监视同步）：不打开进度面板，只提示失败
+    state: TaskState;
+    controller: AbortController;               // 取消本任务
+    progress: Writable<IUploadProgress>;       // 进度（进度面板与队列停靠栏共用）
+    failures: string[];                        // 失败的文件路径
+    deduped: number;                           // 复用已有资源的文件数
+    uploaded: string[];                        // 本任务新上传的资源地址（记入上传历史）
+    peakBatchBytes: number;                    // 单个批次的最大字节数（调试用）
+    peakRss: number;                           // 构建批次时进程常驻内存的峰值（调试用）
+    error: string | null;                      // 任务出错时的错误信息
+    record: UploadJob | null;                  // 任务日志中的记录（可继续的文件夹上传）
+    failedRetry: FailedRetry | null;           // 任务结束后可重试的失败文件
+    queuedAt: number;
+    startedAt: number;
+    finishedAt: number;
+}
+
+// 任务的执行函数：通过 task.controller.signal 响应取消，抛出错误视为任务失败
+export type TaskRunner = (task: UploadTask) => Promise<void>;
+
+export interface QueueHooks {
+    onStart?: (task: UploadTask) => void;
+    onFinish?: (task: UploadTask, err?: unknown) => void;
+}
+
+/**
+ * 创建初始进度
+ * @param rootName 上传的根目录名
+ */
+export function createProgress(rootName: string): IUploadProgress {
+    return {
+        phase: "scanning",
+        rootName,
+        scanned: 0,
+        batch: 0,
+        totalBatches: 0,
+        bytesSent: 0,
+        totalBytes: 0,
+        failures: [],
+        retryable: 0,
+        uploadStartTime: 0,
+    };
+}
+
+/**
+ * 更新任务进度
+ * @param task 上传任务
+ * @param patch 需要更新的字段
+ */
+export function updateProgress(task: UploadTask, patch: Partial<IUploadProgress>): void {
+    task.progress.update(state => ({...state, ...patch}));
+}
+
+/**
+ * 记录失败文件并同步到进度
+ * @param task 上传任务
+ * @param filePath 失败的文件路径
+ */
+export function recordFailure(task: UploadTask, filePath: string): void {
+    task.failures.push(filePath);
+    updateProgress(task, {failures: [...task.failures]});
+}
+
+/**
+ * 记录任务结束后可重试的失败文件，进度面板和队列停靠栏据此显示重试按钮
+ * @param task 上传任务
+ * @param files 可重试的失败文件
+ * @param run 重试任务的执行函数
+ */
+export function offerRetry(task: UploadTask, files: string[], run: TaskRunner): void {
+    task.failedRetry = {files, run};
+    updateProgress(task, {retryable: files.length});
+}
+
+export class UploadQueue {
+    private pool: PromiseLimitPool<void>;
+    private hooks: QueueHooks;
+    private tasks: UploadTask[] = [];
+    private runners = new Map<string, TaskRunner>();
+    private attempts = new Map<string, number>();   // 每次重试递增，使旧的排队调度失效
+    private store = writable<UploadTask[]>([]);
+
+    constructor(concurrency: number, hooks: QueueHooks = {}) {
+        this.pool = new PromiseLimitPool<void>(concurrency);
+        this.hooks = hooks;
+    }
+
+    /** 全部任务（按加入顺序），任务状态变化时更新 */
+    get list(): Readable<UploadTask[]> {
+        return {subscribe: this.store.subscribe};
+    }
+
+    /** 是否有排队或运行中的任务 */
+    get busy(): boolean {
+        return this.tasks.some(task => task.state === "queued" || task.state === "running");
+    }
+
+    /**
+     * 修改并发数
+     * @param concurrency 同时运行的任务数
+     */
+    setConcurrency(concurrency: number): void {
+        this.pool.setMaxConcurrent(concurrency);
+    }
+
+    /**
+     * 加入任务
+     * @param title 显示名称
+     * @param run 执行函数
+     * @param background 是否为后台任务
+     * @returns 新任务
+     */
+    add(title: string, run: TaskRunner, background = false): UploadTask {
+        if (background) {
+            // 同一目录只保留最近一次失败的后台任务
+            this.tasks
+                .filter(item => item.background && item.title === title && item.state === "failed")
+                .forEach(item => this.forget(item.id));
+        }
+        const task: UploadTask = {
+            id: createTimestampId(),
+            title,
+            background,
+            state: "queued",
+            controller: new AbortController(),
+            progress: writable(createProgress(title)),
+            failures: [],
+            deduped: 0,
+            uploaded: [],
+            peakBatchBytes: 0,
+            peakRss: 0,
+            error: null,
+            record: null,
+            failedRetry: null,
+            queuedAt: Date.now(),
+            startedAt: 0,
+            finishedAt: 0,
+        };
+        this.tasks.push(task);
+        this.runners.set(task.id, run);
+        this.schedule(task);
+        return task;
+    }
+
+    /**
+     * 取消任务：排队中的任务直接标记为已取消，运行中的任务中断后由执行函数结束
+     * @param id 任务 ID
+     * @returns 是否取消了任务
+     */
+    cancel(id: string): boolean {
+        const task = this.tasks.find(item => item.id === id);
+        if (!task) return false;
+
+        if (task.state === "queued") {
+            task.controller.abort();
+            this.finish(task, "canceled");
+            return true;
+        }
+        if (task.state === "running" && !task.controller.signal.aborted) {
+            task.controller.abort();
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * 取消全部排队和运行中的任务
+     * @returns 取消的任务数
+     */
+    cancelAll(): number {
+        return this.tasks.filter(task => this.cancel(task.id)).length;
+    }
+
+    /**
+     * 重新执行失败或已取消的任务（保留任务日志记录，执行函数可据此继续上传）。
+     * 重试由用户发起，后台任务重试时按普通任务显示进度
+     * @param id 任务 ID
+     */
+    retry(id: string): void {
+        const task = this.tasks.find(item => item.id === id);
+        if (!task || (task.state !== "failed" && task.state !== "canceled")) return;
+
+        task.background = false;
+        task.state = "queued";
+        task.controller = new AbortController();
+        task.progress.set(createProgress(task.title));
+        task.failures = [];
+        task.deduped = 0;
+        task.uploaded = [];
+        task.peakBatchBytes = 0;
+        task.peakRss = 0;
+        task.error = null;
+        task.failedRetry = null;
+        task.queuedAt = Date.now();
+        task.startedAt = 0;
+        task.finishedAt = 0;
+        this.schedule(task);
+    }
+
+    /** 移除已结束的任务 */
+    clearFinished(): void {
+        this.tasks
+            .filter(task => task.state !== "queued" && task.state !== "running")
+            .forEach(task => this.forget(task.id));
+        this.notify();
+    }
+
+    private schedule(task: UploadTask): void {
+        const attempt = (this.attempts.get(task.id) || 0) + 1;
+        this.attempts.set(task.id, attempt);
+        this.notify();
+        this.pool.add(() => this.execute(task, attempt));
+    }
+
+    private async execute(task: UploadTask, attempt: number): Promise<void> {
+        // 排队期间被取消或重新调度的任务不再执行
+        if (task.state !== "queued" || this.attempts.get(task.id) !== attempt) return;
+
+        task.state = "running";
+        task.startedAt = Date.now();
+        this.notify();
+        this.hooks.onStart?.(task);
+
+        try {
+            await this.runners.get(task.id)(task);
+            this.finish(task, task.controller.signal.aborted ? "canceled" : "done");
+        } catch (err) {
+            if (task.controller.signal.aborted) {
+                this.finish(task, "canceled");
+                return;
+            }
+            task.error = err instanceof Error ? err.message : String(err);
+            this.finish(task, "failed", err);
+        }
+    }
+
+    private finish(task: UploadTask, state: TaskState, err?: unknown): void {
+        task.state = state;
+        task.finishedAt = Date.now();
+        // 后台任务完成或取消后不再保留，避免频繁变化的监视目录让任务列表无限增长；失败的保留以便查看和重试
+        if (task.background && state !== "failed") {
+            this.forget(task.id);
+        }
+        this.notify();
+        this.hooks.onFinish?.(task, err);
+    }
+
+    /** 移除任务及其执行函数 */
+    private forget(id: string): void {
+        this.tasks = this.tasks.filter(task => task.id !== id);
+        this.runners.delete(id);
+        this.attempts.delete(id);
+    }
+
+    private notify(): void {
+        this.store.set([...this.tasks]);
+    }
+}
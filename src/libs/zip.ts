@@ -0,0 +1,206 @@
+/**
+ * 纯 TypeScript 实现的 ZIP 写入器（不依赖原生模块，可在 Electron 渲染进程中使用）
+ *
+ * - 文件名使用 UTF-8 编码（设置通用标志位 bit 11）
+ * - 运行环境支持 `CompressionStream("deflate-raw")` 时使用 DEFLATE 压缩，
+ *   压缩后不变小或不支持时以 STORE 方式存储
+ * - 不支持 ZIP64：条目数不超过 65535，总大小不超过 4 GB
+ * - 条目写入后立即交给调用方提供的写入函数（通常写入临时文件），不在内存中保留整个压缩包
+ */
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50;
+
+const VERSION = 20;                            // 2.0：支持 DEFLATE 和目录
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+export const ZIP_MAX_ENTRIES = 0xffff;
+export const ZIP_MAX_SIZE = 0xffffffff;
+
+// 中央目录记录所需的条目信息
+interface ZipEntry {
+    name: Uint8Array;
+    method: number;
+    crc: number;
+    compressedSize: number;
+    size: number;
+    time: number;
+    date: number;
+    offset: number;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * 计算 CRC-32
+ * @param data 数据
+ * @returns 无符号 CRC-32 值
+ */
+export function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * 使用浏览器内置的 CompressionStream 进行 raw DEFLATE 压缩
+ * @param data 原始数据
+ * @returns 压缩后的数据，环境不支持时返回 null
+ */
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array | null> {
+    if (typeof CompressionStream === "undefined") return null;
+    try {
+        const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+        return new Uint8Array(await new Response(stream).arrayBuffer());
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * 转换为 MS-DOS 时间和日期（ZIP 头部使用的格式，精度 2 秒）
+ * @param date 时间
+ * @returns [时间, 日期]
+ */
+function toDosDateTime(date: Date): [number, number] {
+    const year = Math.max(1980, date.getFullYear());
+    const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+    const day = ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+    return [time, day];
+}
+
+/** 写入函数：按顺序接收压缩包的各段数据，写完后 resolve */
+export type ZipSink = (data: Uint8Array) => Promise<void>;
+
+export class ZipWriter {
+    private sink: ZipSink;
+    private entries: ZipEntry[] = [];
+    private offset = 0;
+    private encoder = new TextEncoder();
+
+    /**
+     * @param sink 写入函数，压缩包的数据按顺序交给它写出
+     */
+    constructor(sink: ZipSink) {
+        this.sink = sink;
+    }
+
+    /**
+     * 添加文件
+     * @param name 压缩包内路径（使用 `/` 分隔）
+     * @param data 文件内容
+     * @param mtime 修改时间
+     */
+    async add(name: string, data: Uint8Array, mtime: Date = new Date()): Promise<void> {
+        if (this.entries.length >= ZIP_MAX_ENTRIES) {
+            throw new Error(`ZIP archive cannot hold more than ${ZIP_MAX_ENTRIES} entries`);
+        }
+
+        const deflated = await deflateRaw(data);
+        const compressed = deflated && deflated.length < data.length ? deflated : data;
+        const method = compressed === data ? METHOD_STORE : METHOD_DEFLATE;
+        const [time, date] = toDosDateTime(mtime);
+
+        const entry: ZipEntry = {
+            name: this.encoder.encode(name),
+            method,
+            crc: crc32(data),
+            compressedSize: compressed.length,
+            size: data.length,
+            time,
+            date,
+            offset: this.offset,
+        };
+
+        const header = new Uint8Array(30 + entry.name.length);
+        const view = new DataView(header.buffer);
+        view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+        view.setUint16(4, VERSION, true);
+        view.setUint16(6, FLAG_UTF8, true);
+        view.setUint16(8, entry.method, true);
+        view.setUint16(10, entry.time, true);
+        view.setUint16(12, entry.date, true);
+        view.setUint32(14, entry.crc, true);
+        view.setUint32(18, entry.compressedSize, true);
+        view.setUint32(22, entry.size, true);
+        view.setUint16(26, entry.name.length, true);
+        view.setUint16(28, 0, true);
+        header.set(entry.name, 30);
+
+        // 先检查整个条目的大小，避免写出不完整的条目
+        this.reserve(header.length + compressed.length);
+        await this.write(header);
+        await this.write(compressed);
+        this.entries.push(entry);
+    }
+
+    /**
+     * 写入中央目录，结束压缩包
+     * @returns 压缩包总字节数
+     */
+    async finish(): Promise<number> {
+        const centralOffset = this.offset;
+
+        for (const entry of this.entries) {
+            const header = new Uint8Array(46 + entry.name.length);
+            const view = new DataView(header.buffer);
+            view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+            view.setUint16(4, VERSION, true);
+            view.setUint16(6, VERSION, true);
+            view.setUint16(8, FLAG_UTF8, true);
+            view.setUint16(10, entry.method, true);
+            view.setUint16(12, entry.time, true);
+            view.setUint16(14, entry.date, true);
+            view.setUint32(16, entry.crc, true);
+            view.setUint32(20, entry.compressedSize, true);
+            view.setUint32(24, entry.size, true);
+            view.setUint16(28, entry.name.length, true);
+            // 30-41：扩展字段长度、注释长度、磁盘号、内部属性、外部属性均为 0
+            view.setUint32(42, entry.offset, true);
+            header.set(entry.name, 46);
+            this.reserve(header.length);
+            await this.write(header);
+        }
+
+        const end = new Uint8Array(22);
+        const view = new DataView(end.buffer);
+        view.setUint32(0, END_OF_CENTRAL_DIR_SIGNATURE, true);
+        view.setUint16(8, this.entries.length, true);
+        view.setUint16(10, this.entries.length, true);
+        view.setUint32(12, this.offset - centralOffset, true);
+        view.setUint32(16, centralOffset, true);
+        this.reserve(end.length);
+        await this.write(end);
+
+        return this.offset;
+    }
+
+    /** 检查追加数据后是否超出 ZIP（非 ZIP64）的大小上限 */
+    private reserve(length: number): void {
+        if (this.offset + length > ZIP_MAX_SIZE) {
+            throw new Error("ZIP archive cannot exceed 4 GB");
+        }
+    }
+
+    /** 写出数据并记录偏移量 */
+    private async write(data: Uint8Array): Promise<void> {
+        await this.sink(data);
+        this.offset += data.length;
+    }
+}
@@ -0,0 +1,198 @@
+/**
+ * 本地文件链接：上传文档中指向本地文件的 file:// 链接，并替换为资源地址（撤销时还原）
+ */
+import {showMessage} from "siyuan";
+import {UploadTask, updateProgress, recordFailure, offerRetry} from "./libs/upload-queue";
+import {getBlockByID, getBlockKramdown, updateBlock} from "./api";
+import {HREF_ATTR, findBlockId} from "./libs/dom";
+import {FILE_PROTOCOL, escapeRegExp, getFileName, isDirectory} from "./files";
+import {PluginContext} from "./context";
+
+// 通过 window.require 获取 Node.js 模块（思源插件环境限制）
+const fs = window.require('fs');
+
+// 文档中指向本地文件的链接
+export interface LocalLink {
+    href: string;                              // 链接原始地址（file://...）
+    filePath: string;                          // 解码后的本地路径
+    blockId: string;                           // 链接所在块 ID
+}
+
+export class LocalFileUploader {
+    private plugin: PluginContext;
+
+    constructor(plugin: PluginContext) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * 收集选中块中指向本地文件（非文件夹）的链接
+     * @param blockElements 选中的块元素
+     * @returns 通过校验的链接列表（同一块中的相同链接只保留一个）
+     */
+    collectLocalLinks(blockElements: HTMLElement[]): LocalLink[] {
+        const links = new Map<string, LocalLink>();
+
+        for (const blockElement of blockElements) {
+            const elements = blockElement.querySelectorAll<HTMLElement>(`[${HREF_ATTR}^="${FILE_PROTOCOL}"]`);
+            for (const element of Array.from(elements)) {
+                const href = element.getAttribute(HREF_ATTR);
+                const blockId = findBlockId(element);
+                if (!blockId || links.has(`${blockId}\n${href}`)) continue;
+
+                let filePath: string;
+                try {
+                    filePath = decodeURIComponent(href.replace(FILE_PROTOCOL, ""));
+                } catch {
+                    continue;
+                }
+                if (!fs.existsSync(filePath) || isDirectory(filePath)) continue;
+                if (!this.plugin.workspace.validatePath(filePath).valid) continue;
+
+                links.set(`${blockId}\n${href}`, {href, filePath, blockId});
+            }
+        }
+
+        return [...links.values()];
+    }
+
+    /**
+     * 上传本地文件并将文档中的 file:// 链接原地替换为资源链接
+     * @param task 上传任务
+     * @param links 待上传的链接
+     */
+    async uploadLocalFiles(task: UploadTask, links: LocalLink[]) {
+        const startTime = Date.now();
+        const signal = task.controller.signal;
+
+        const maxFileSize = this.plugin.settings.maxFileSize * 1024 * 1024;
+        const fileSizes = new Map<string, number>();
+        for (const {filePath} of links) {
+            if (fileSizes.has(filePath)) continue;
+            const size = fs.statSync(filePath).size;
+            if (size > maxFileSize) {
+                this.plugin.logWarn(this.plugin.i18n.error.fileTooLarge
+                    .replace('${size}', (size / 1024 / 1024).toFixed(2))
+                    .replace('${fileName}', getFileName(filePath)));
+                recordFailure(task, filePath);
+                continue;
+            }
+            fileSizes.set(filePath, size);
+        }
+        updateProgress(task, {scanned: fileSizes.size});
+
+        const filePaths = [...fileSizes.keys()];
+        const urlMap = await this.plugin.uploader.uploadFilesInBatches(task, filePaths, fileSizes);
+        if (signal.aborted) {
+            return;
+        }
+
+        updateProgress(task, {phase: "inserting"});
+        const replacementsByBlock = new Map<string, Map<string, string>>();
+        for (const {href, filePath, blockId} of links) {
+            const url = urlMap.get(filePath);
+            if (!url) continue;
+            if (!replacementsByBlock.has(blockId)) replacementsByBlock.set(blockId, new Map());
+            replacementsByBlock.get(blockId).set(href, url);
+        }
+        const replacedLinks: Array<[string, string, string]> = [];
+        for (const [blockId, replacements] of replacementsByBlock) {
+            for (const [href, url] of await this.replaceLinks(blockId, replacements)) {
+                replacedLinks.push([blockId, href, url]);
+            }
+        }
+        await this.plugin.jobs.saveHistory({
+            id: task.id,
+            kind: "files",
+            title: task.title,
+            dirPath: "",
+            blockId: links[0].blockId,
+            treeBlockId: null,
+            uploaded: [...task.uploaded],
+            docs: [],
+            links: replacedLinks,
+            failures: [...task.failures],
+            time: Date.now(),
+        });
+
+        // 超过大小限制的文件重试也不会成功，只重试上传失败的文件
+        const failedLinks = links.filter(link => fileSizes.has(link.filePath) && !urlMap.has(link.filePath));
+        if (failedLinks.length > 0) {
+            const files = [...new Set(failedLinks.map(link => link.filePath))];
+            offerRetry(task, files, retryTask => this.uploadLocalFiles(retryTask, failedLinks));
+        }
+
+        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+        const dedupedNote = task.deduped > 0
+            ? this.plugin.i18n.upload.deduped.replace('${count}', String(task.deduped))
+            : "";
+        const total = new Set(links.map(link => link.filePath)).size;
+        if (task.failures.length > 0) {
+            const failedList = task.failures.map(f => `  - ${f}`).join('\n');
+            console.error(`[${this.plugin.name}] ${this.plugin.i18n.upload.failedFilesList.replace('${files}', failedList)}`);
+            showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.upload.partialFailed
+                .replace('${success}', String(urlMap.size))
+                .replace('${total}', String(total))
+                .replace('${failed}', String(task.failures.length))
+                .replace('${elapsed}', elapsed)
+            }${dedupedNote}`);
+        } else {
+            showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.file.success
+                .replace('${count}', String(urlMap.size))
+                .replace('${blocks}', String(replacementsByBlock.size))
+                .replace('${elapsed}', elapsed)
+            }${dedupedNote}`);
+        }
+    }
+
+    /**
+     * 将块中的链接地址替换为资源地址（保留链接文本和块属性）
+     * @param blockId 块 ID
+     * @param replacements 原链接地址到资源地址的映射
+     * @returns 实际替换的 [原链接地址, 资源地址] 列表
+     */
+    private async replaceLinks(blockId: string, replacements: Map<string, string>): Promise<Array<[string, string]>> {
+        const {kramdown} = await getBlockKramdown(blockId);
+        let updated = kramdown;
+        const replaced: Array<[string, string]> = [];
+
+        for (const [href, url] of replacements) {
+            // 只替换完整的链接地址，避免误伤以其为前缀的其他链接
+            const pattern = new RegExp(`${escapeRegExp(href)}(?=[)>\\s"])`, 'g');
+            const next = updated.replace(pattern, () => url);
+            if (next === updated) {
+                this.plugin.logWarn(this.plugin.i18n.file.notReplaced.replace('${href}', href));
+            } else {
+                replaced.push([href, url]);
+            }
+            updated = next;
+        }
+
+        if (updated !== kramdown) {
+            await updateBlock("markdown", updated, blockId);
+        }
+        return replaced;
+    }
+
+    /**
+     * 撤销上传时还原被替换的链接
+     * @param links [块 ID, 原内容, 替换后的内容] 列表
+     */
+    async restoreLinks(links: Array<[string, string, string]>): Promise<void> {
+        const byBlock = new Map<string, Array<[string, string]>>();
+        for (const [blockId, original, replacement] of links) {
+            if (!byBlock.has(blockId)) byBlock.set(blockId, []);
+            byBlock.get(blockId).push([original, replacement]);
+        }
+
+        for (const [blockId, pairs] of byBlock) {
+            // 块已被删除时跳过
+            if (!await getBlockByID(blockId)) continue;
+            const {kramdown} = await getBlockKramdown(blockId);
+            const updated = pairs.reduce((text, [original, replacement]) => text.split(replacement).join(original), kramdown);
+            if (updated !== kramdown) {
+                await updateBlock("markdown", updated, blockId);
+            }
+        }
+    }
+}
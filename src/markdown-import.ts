@@ -0,0 +1,331 @@
+/**
+ * Markdown 导入：将上传目录中的 Markdown 文件导入为文档，并改写文档间的相对链接
+ */
+import {showMessage} from "siyuan";
+import {collectFileSizes} from "./libs/tree";
+import {ManifestEntry} from "./libs/manifest";
+import {rewriteRelativeLinks} from "./libs/markdown-links";
+import {UploadTask, updateProgress, recordFailure} from "./libs/upload-queue";
+import {FOLDER_ICON_KEY} from "./libs/icons";
+import {RenderContext, renderLeafList} from "./libs/render";
+import {createDocWithMd, getBlockByID, getBlockKramdown, getIDsByHPath, updateBlock} from "./api";
+import {isMarkdownFile, escapeRegExp, getFileName} from "./files";
+import {PluginContext} from "./context";
+import {DOC_URL_PREFIX} from "./tree-output";
+
+// 通过 window.require 获取 Node.js 模块（思源插件环境限制）
+const fs = window.require('fs');
+const path = window.require('path');
+
+// 待导入为文档的 Markdown 文件：新文档提供可读路径，重新导入已有文档时提供文档 ID
+export interface MarkdownImport {
+    filePath: string;
+    hpath?: string;
+    docId?: string;
+}
+
+export class MarkdownImporter {
+    private plugin: PluginContext;
+
+    constructor(plugin: PluginContext) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * 将文件夹导入为文档层级：在当前文档下为每个目录创建文档，Markdown 文件导入为子文档，
+     * 其他文件上传后链接到所在目录的文档中；最后把当前块中的链接替换为导入根文档的引用
+     * @param task 上传任务
+     * @param dirPath 目录路径
+     * @param blockId 链接所在块 ID
+     * @param href 链接原始地址
+     */
+    async importAsDocuments(task: UploadTask, dirPath: string, blockId: string, href: string) {
+        const startTime = Date.now();
+        const rootName = getFileName(dirPath);
+        const signal = task.controller.signal;
+
+        const block = await getBlockByID(blockId);
+        if (!block?.box || !block.hpath) {
+            showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.importDocs.noDocument}`);
+            return;
+        }
+
+        const scanContext = this.plugin.scanner.createScanContext(task, dirPath);
+        const {tree, filePaths} = await this.plugin.scanner.buildDirectoryTree(dirPath, 0, scanContext);
+        if (signal.aborted) {
+            return;
+        }
+        if (filePaths.length === 0) {
+            showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.upload.emptyFolder}`);
+            return;
+        }
+        if (filePaths.length >= this.plugin.settings.maxFiles) {
+            showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.error.tooManyFiles
+                .replace('${maxFiles}', String(this.plugin.settings.maxFiles))
+            }`);
+            return;
+        }
+
+        // Markdown 文件作为文档导入，不作为资源上传
+        const uploadPaths = filePaths.filter(filePath => !isMarkdownFile(filePath));
+        const assetsDir = this.plugin.settings.assetLayout === "mirror" ? this.plugin.uploader.createMirrorAssetsDir(dirPath) : null;
+        const urlMap = await this.plugin.uploader.uploadFilesInBatches(task, uploadPaths, collectFileSizes(tree), dirPath, assetsDir);
+        if (signal.aborted) {
+            return;
+        }
+        this.plugin.output.fillTreeUrls(tree, urlMap);
+
+        updateProgress(task, {phase: "inserting"});
+        const counter = {docs: 0};
+        const markdownImports: MarkdownImport[] = [];
+        const rootHPath = await this.uniqueHPath(block.box, `${block.hpath}/${rootName}`);
+        const context = this.plugin.output.createRenderContext(rootName, null);
+        await this.plugin.output.loadCodeEmbeds(tree);
+        const rootId = await this.createDocTree(task, block.box, rootHPath, tree, context, counter, markdownImports);
+        const importedDocs = await this.importMarkdownFiles(task, block.box, markdownImports, urlMap);
+        counter.docs += importedDocs.size;
+        const {links, insertedId} = await this.linkImportedRoot(blockId, href, rootId, rootName);
+        await this.plugin.jobs.saveHistory({
+            id: task.id,
+            kind: "docs",
+            title: task.title,
+            dirPath,
+            blockId,
+            treeBlockId: insertedId,
+            uploaded: [...task.uploaded],
+            // 导入的文档都位于根文档下
+            docs: [rootId],
+            links: links.map(([original, replacement]) => [blockId, original, replacement]),
+            failures: [...task.failures],
+            time: Date.now(),
+        });
+
+        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+        showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.importDocs.success
+            .replace('${docs}', String(counter.docs))
+            .replace('${files}', String(urlMap.size))
+            .replace('${failed}', String(task.failures.length))
+            .replace('${elapsed}', elapsed)
+        }`);
+    }
+
+    /**
+     * 递归创建目录文档，Markdown 文件收集到 markdownImports 中，待目录文档全部创建后再导入
+     * @param task 上传任务
+     * @param notebook 笔记本 ID
+     * @param hpath 目录文档的可读路径
+     * @param nodes 目录下的节点（已回填 URL）
+     * @param context 渲染上下文
+     * @param counter 已创建的文档数
+     * @param markdownImports 收集到的待导入 Markdown 文件
+     * @returns 目录文档 ID
+     */
+    private async createDocTree(
+        task: UploadTask,
+        notebook: string,
+        hpath: string,
+        nodes: TreeNode[],
+        context: RenderContext,
+        counter: {docs: number},
+        markdownImports: MarkdownImport[]
+    ): Promise<string> {
+        const links = nodes.filter(node => !(node.type === "file" && isMarkdownFile(node.name)));
+        const docId = await createDocWithMd(notebook, hpath, renderLeafList(links, context));
+        counter.docs++;
+
+        for (const node of nodes) {
+            if (task.controller.signal.aborted) break;
+
+            if (node.type === "directory") {
+                const childHPath = await this.uniqueHPath(notebook, `${hpath}/${node.name}`);
+                await this.createDocTree(task, notebook, childHPath, node.children || [], context, counter, markdownImports);
+            } else if (node.type === "file" && node.filePath && isMarkdownFile(node.name)) {
+                const title = path.basename(node.name, path.extname(node.name));
+                markdownImports.push({filePath: node.filePath, hpath: `${hpath}/${title}`});
+            }
+        }
+
+        return docId;
+    }
+
+    /**
+     * 将 Markdown 文件导入为文档，并改写其中的相对链接：
+     * 图片和附件改写为资源地址，指向其他 Markdown 文件的链接改写为块引用。
+     * 先创建全部文档拿到 ID，再逐篇写入内容，保证文档之间可以互相引用
+     * @param task 上传任务
+     * @param notebook 笔记本 ID
+     * @param imports 待导入的文件
+     * @param assetUrls 本地文件路径到资源地址的映射
+     * @param knownDocs 之前已导入且未变化的 Markdown 文件（路径到文档 ID）
+     * @returns 导入成功的文件路径到文档 ID 的映射
+     */
+    private async importMarkdownFiles(
+        task: UploadTask,
+        notebook: string,
+        imports: MarkdownImport[],
+        assetUrls: Map<string, string>,
+        knownDocs: Map<string, string> = new Map()
+    ): Promise<Map<string, string>> {
+        const imported = new Map<string, string>();
+
+        for (const {filePath, hpath, docId} of imports) {
+            if (task.controller.signal.aborted) break;
+            try {
+                imported.set(filePath, docId || await createDocWithMd(notebook, await this.uniqueHPath(notebook, hpath), ""));
+            } catch (err) {
+                recordFailure(task, filePath);
+                this.plugin.logError(this.plugin.i18n.error.insertFailed, err);
+            }
+        }
+
+        const docIds = new Map([...knownDocs, ...imported]);
+        for (const [filePath, docId] of imported) {
+            if (task.controller.signal.aborted) break;
+            try {
+                const baseDir = path.dirname(filePath);
+                const source = await fs.promises.readFile(filePath, 'utf8');
+                const markdown = rewriteRelativeLinks(source, (relativePath) => {
+                    const target = path.resolve(baseDir, relativePath);
+                    const targetDoc = docIds.get(target);
+                    const url = assetUrls.get(target);
+                    return targetDoc || url ? {docId: targetDoc, url} : null;
+                });
+                await updateBlock("markdown", markdown, docId);
+            } catch (err) {
+                recordFailure(task, filePath);
+                this.plugin.logWarn(this.plugin.i18n.error.cannotRead
+                    .replace('${fileName}', getFileName(filePath))
+                    .replace('${error}', this.plugin.getErrorMessage(err))
+                );
+            }
+        }
+
+        return imported;
+    }
+
+    /**
+     * 为上传的目录树中的 Markdown 文件生成导入位置（保持相对目录结构）
+     * @param filePaths Markdown 文件路径
+     * @param rootDir 上传的源目录
+     * @param rootHPath 导入位置的可读路径
+     * @returns 待导入的文件
+     */
+    createMarkdownImports(filePaths: string[], rootDir: string, rootHPath: string): MarkdownImport[] {
+        return filePaths.map((filePath) => {
+            const segments = path.relative(rootDir, path.dirname(filePath))
+                .split(path.sep)
+                .filter((segment: string) => segment.length > 0);
+            const title = path.basename(filePath, path.extname(filePath));
+            return {filePath, hpath: [rootHPath, ...segments, title].join('/')};
+        });
+    }
+
+    /**
+     * 上传（或重新同步）目录树时导入 Markdown 文件
+     * @param task 上传任务
+     * @param blockId 目录树所在（或目标）块 ID，用于确定笔记本
+     * @param imports 待导入的文件
+     * @param assetUrls 本地文件路径到资源地址的映射
+     * @param knownDocs 之前已导入且未变化的 Markdown 文件
+     * @returns 导入成功的文件路径到文档链接（`siyuan://blocks/<id>`）的映射
+     */
+    async importMarkdownForTree(
+        task: UploadTask,
+        blockId: string,
+        imports: MarkdownImport[],
+        assetUrls: Map<string, string>,
+        knownDocs: Map<string, string> = new Map()
+    ): Promise<Map<string, string>> {
+        const docUrls = new Map<string, string>();
+        if (imports.length === 0) return docUrls;
+
+        const block = await getBlockByID(blockId);
+        if (!block?.box) {
+            throw new Error(this.plugin.i18n.importDocs.noDocument);
+        }
+
+        const docs = await this.importMarkdownFiles(task, block.box, imports, assetUrls, knownDocs);
+        docs.forEach((docId, filePath) => docUrls.set(filePath, `${DOC_URL_PREFIX}${docId}`));
+        return docUrls;
+    }
+
+    /**
+     * 重新同步时规划 Markdown 文件的导入：修改过的文件更新原文档，新增的文件创建新文档
+     * @param changedMarkdown 新增或修改的 Markdown 文件
+     * @param reused 未变化文件的地址
+     * @param manifest 上次保存的清单
+     * @param dirPath 源目录
+     * @param markdownRoot Markdown 文件导入位置的可读路径
+     * @returns 待导入的文件，以及未变化的已导入文档（路径到文档 ID）
+     */
+    planMarkdownResync(
+        changedMarkdown: string[],
+        reused: Map<string, string>,
+        manifest: ManifestEntry[],
+        dirPath: string,
+        markdownRoot: string
+    ): {imports: MarkdownImport[], knownDocs: Map<string, string>} {
+        const toDocId = (url?: string) => url?.startsWith(DOC_URL_PREFIX) ? url.slice(DOC_URL_PREFIX.length) : null;
+
+        const knownDocs = new Map<string, string>();
+        reused.forEach((url, filePath) => {
+            const docId = toDocId(url);
+            if (docId) knownDocs.set(filePath, docId);
+        });
+
+        const previousUrls = new Map(manifest.map(entry => [path.join(dirPath, ...entry.path.split('/')), entry.url]));
+        const imports = changedMarkdown.map((filePath) => {
+            const docId = toDocId(previousUrls.get(filePath));
+            return docId ? {filePath, docId} : this.createMarkdownImports([filePath], dirPath, markdownRoot)[0];
+        });
+
+        return {imports, knownDocs};
+    }
+
+    /**
+     * 生成不与已有文档重名的可读路径（重名时追加序号）
+     * @param notebook 笔记本 ID
+     * @param hpath 期望的可读路径
+     * @returns 可用的可读路径
+     */
+    async uniqueHPath(notebook: string, hpath: string): Promise<string> {
+        let candidate = hpath;
+        for (let i = 2; (await getIDsByHPath(notebook, candidate))?.length > 0; i++) {
+            candidate = `${hpath} (${i})`;
+        }
+        return candidate;
+    }
+
+    /**
+     * 将当前块中的 file:// 链接替换为导入根文档的块引用，找不到链接时在块后插入引用
+     * @param blockId 链接所在块 ID
+     * @param href 链接原始地址
+     * @param rootId 导入根文档 ID
+     * @param rootName 根目录名称
+     * @returns 替换的内容 [原链接, 块引用]，以及找不到链接时插入的块 ID
+     */
+    private async linkImportedRoot(
+        blockId: string,
+        href: string,
+        rootId: string,
+        rootName: string
+    ): Promise<{links: Array<[string, string]>, insertedId: string | null}> {
+        const escapeAnchor = (text: string) => text.replace(/"/g, '&quot;');
+        const {kramdown} = await getBlockKramdown(blockId);
+        const pattern = new RegExp(`\\[([^\\]]*)\\]\\(${escapeRegExp(href)}(?:\\s+"[^"]*")?\\)`, 'g');
+        const links: Array<[string, string]> = [];
+        const updated = kramdown.replace(pattern, (match: string, text: string) => {
+            const ref = `((${rootId} "${escapeAnchor(text || rootName)}"))`;
+            links.push([match, ref]);
+            return ref;
+        });
+
+        if (updated !== kramdown) {
+            await updateBlock("markdown", updated, blockId);
+            return {links, insertedId: null};
+        }
+        const icon = this.plugin.icons[FOLDER_ICON_KEY];
+        const insertedId = await this.plugin.output.insertToEditor(`- ${icon ? `${icon} ` : ""}((${rootId} "${escapeAnchor(rootName)}"))`, blockId);
+        return {links: [], insertedId};
+    }
+}
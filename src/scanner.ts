@@ -0,0 +1,326 @@
+/**
+ * 目录扫描：按忽略规则、深度与大小限制遍历本地目录，生成目录树（含符号链接处理与循环检测）
+ */
+import {IgnoreMatcher, parsePatterns} from "./libs/ignore";
+import {summarizeTree} from "./libs/tree";
+import {UploadTask, updateProgress, recordFailure} from "./libs/upload-queue";
+import {getMimeType} from "./libs/mime";
+import {IMAGE_HEADER_BYTES, ImageSize, readImageSize} from "./libs/image-size";
+import {getFileName} from "./files";
+import {PluginContext} from "./context";
+
+// 通过 window.require 获取 Node.js 模块（思源插件环境限制）
+const fs = window.require('fs');
+const path = window.require('path');
+
+const IGNORE_FILES = ['.gitignore', '.siyuanignore'];  // 上传目录中会被读取的忽略文件
+
+export type FilterFn = (name: string) => boolean;
+
+// 目录扫描上下文（同一次扫描的所有递归调用共享）
+export interface ScanContext {
+    task: UploadTask;                          // 所属上传任务（取消、进度与失败记录）
+    rootDir: string;                           // 扫描根目录
+    filter: FilterFn;                          // 名称过滤器
+    matcher: IgnoreMatcher;                    // 忽略模式匹配器
+    count: number;                             // 已收集的文件数
+    skipped: number;                           // 被忽略模式跳过的条目数
+    visited: Set<string>;                      // 已扫描目录的真实路径（跟随符号链接时用于循环检测）
+    readDimensions: boolean;                   // 是否读取图片尺寸（列表项模板用到 {dimensions} 时）
+    unlimited: boolean;                        // 不限制文件数和文件大小（只链接本地文件时不传输文件）
+}
+
+/**
+ * 创建默认文件过滤器：跳过隐藏文件和设置中的系统目录
+ * @param hiddenDirs 需要跳过的目录名集合
+ * @returns 过滤函数
+ */
+export function createDefaultFilter(hiddenDirs: Set<string>): FilterFn {
+    return (name) => {
+        if (name.startsWith('.') || name.startsWith('~')) return false;
+        return !hiddenDirs.has(name);
+    };
+}
+
+/**
+ * 解析逗号分隔的目录名列表
+ * @param value 设置中的原始字符串
+ * @returns 目录名集合
+ */
+export function parseHiddenDirs(value: string): Set<string> {
+    return new Set(
+        (value || "").split(',').map(name => name.trim()).filter(name => name.length > 0)
+    );
+}
+
+/**
+ * 读取图片尺寸（只读取文件头，无法识别或读取失败时返回 null）
+ * @param filePath 文件完整路径
+ * @returns 宽高（像素）
+ */
+async function readImageDimensions(filePath: string): Promise<ImageSize | null> {
+    try {
+        const handle = await fs.promises.open(filePath, 'r');
+        try {
+            const buffer = new Uint8Array(IMAGE_HEADER_BYTES);
+            const {bytesRead} = await handle.read(buffer, 0, IMAGE_HEADER_BYTES, 0);
+            return readImageSize(buffer.subarray(0, bytesRead));
+        } finally {
+            await handle.close();
+        }
+    } catch {
+        return null;
+    }
+}
+
+export class FolderScanner {
+    private plugin: PluginContext;
+
+    constructor(plugin: PluginContext) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * 创建扫描上下文
+     * @param task 上传任务
+     * @param rootDir 扫描根目录
+     * @param extraPatterns 本次上传额外的忽略模式
+     * @param unlimited 是否不限制文件数和文件大小
+     * @returns 扫描上下文
+     */
+    createScanContext(task: UploadTask, rootDir: string, extraPatterns: string[] = [], unlimited = false): ScanContext {
+        return {
+            task,
+            rootDir,
+            filter: createDefaultFilter(parseHiddenDirs(this.plugin.settings.hiddenDirs)),
+            matcher: this.createIgnoreMatcher(rootDir, extraPatterns),
+            count: 0,
+            skipped: 0,
+            visited: new Set(this.plugin.settings.symlinkPolicy === "follow" ? [fs.realpathSync(rootDir)] : []),
+            readDimensions: this.plugin.settings.itemTemplate.includes("{dimensions}"),
+            unlimited,
+        };
+    }
+
+    /**
+     * 创建忽略模式匹配器
+     * 忽略规则优先级（由低到高）：全局设置 < 目录中的忽略文件 < 本次上传的模式
+     * @param rootDir 扫描根目录
+     * @param extraPatterns 本次上传额外的忽略模式
+     * @returns 匹配器
+     */
+    createIgnoreMatcher(rootDir: string, extraPatterns: string[] = []): IgnoreMatcher {
+        const matcher = new IgnoreMatcher(parsePatterns(this.plugin.settings.ignorePatterns));
+
+        if (this.plugin.settings.useIgnoreFiles) {
+            for (const ignoreFile of IGNORE_FILES) {
+                const ignorePath = path.join(rootDir, ignoreFile);
+                try {
+                    if (fs.existsSync(ignorePath)) {
+                        matcher.add(parsePatterns(fs.readFileSync(ignorePath, 'utf8')));
+                    }
+                } catch (err) {
+                    this.plugin.logWarn(this.plugin.i18n.error.cannotRead
+                        .replace('${fileName}', ignoreFile)
+                        .replace('${error}', this.plugin.getErrorMessage(err))
+                    );
+                }
+            }
+        }
+        matcher.add(extraPatterns);
+        return matcher;
+    }
+
+    /**
+     * 构建目录树（并发处理子目录）
+     * @param dirPath 目录路径
+     * @param currentDepth 当前深度
+     * @param context 扫描上下文（共享计数器与过滤规则）
+     * @returns 树结构和文件路径列表
+     */
+    async buildDirectoryTree(
+        dirPath: string,
+        currentDepth: number,
+        context: ScanContext
+    ): Promise<{tree: TreeNode[], filePaths: string[]}> {
+        const {maxDepth, maxFiles, symlinkPolicy} = this.plugin.settings;
+        const maxFileSize = this.plugin.settings.maxFileSize * 1024 * 1024;
+        const {task} = context;
+
+        if (currentDepth >= maxDepth) {
+            throw new Error(this.plugin.i18n.error.depthExceeded
+                .replace('${depth}', String(currentDepth + 1))
+                .replace('${maxDepth}', String(maxDepth))
+            );
+        }
+
+        if (task.controller.signal.aborted) {
+            return {tree: [], filePaths: []};
+        }
+
+        const entries = await fs.promises.readdir(dirPath, {withFileTypes: true});
+        const nodes: TreeNode[] = [];
+        const filePaths: string[] = [];
+        const subDirs: Array<{name: string, path: string}> = [];
+
+        for (const entry of entries) {
+            if (!context.filter(entry.name)) continue;
+
+            const fullPath = path.join(dirPath, entry.name);
+
+            if (!context.matcher.empty) {
+                const relativePath = path.relative(context.rootDir, fullPath).split(path.sep).join('/');
+                if (context.matcher.ignores(relativePath, entry.isDirectory())) {
+                    context.skipped++;
+                    continue;
+                }
+            }
+
+            try {
+                // 检查文件数量限制（在添加文件之前）
+                if (!context.unlimited && context.count >= maxFiles) {
+                   continue;
+                }
+
+                let isFile = entry.isFile();
+                let isDirectory = entry.isDirectory();
+                if (entry.isSymbolicLink()) {
+                    if (symlinkPolicy === "skip") continue;
+
+                    const targetStat = symlinkPolicy === "follow" ? this.resolveSymlink(fullPath, context) : null;
+                    if (!targetStat) {
+                        nodes.push({name: entry.name, type: "symlink", linkTarget: this.readLinkTarget(fullPath)});
+                        continue;
+                    }
+                    isFile = targetStat.isFile();
+                    isDirectory = targetStat.isDirectory();
+                } else if (isDirectory && symlinkPolicy === "follow" && !this.markVisited(fs.realpathSync(fullPath), context)) {
+                    // 已经通过符号链接扫描过的目录不再重复扫描
+                    continue;
+                }
+
+                if (isFile) {
+                    // P0 优化：普通文件使用同步 stat，无需异步 lstat（entry.isFile() 已确认类型）
+                    const stat = fs.statSync(fullPath);
+                    const size = stat.size;
+                    if (!context.unlimited && size > maxFileSize) {
+                        const sizeMB = (size / 1024 / 1024).toFixed(1);
+                        this.plugin.logWarn(this.plugin.i18n.error.fileTooLarge
+                            .replace('${size}', sizeMB)
+                            .replace('${fileName}', entry.name)
+                        );
+                        recordFailure(task, fullPath);
+                        continue;
+                    }
+
+                    const mime = getMimeType(entry.name);
+                    const dimensions = context.readDimensions && mime.startsWith("image/")
+                        ? await readImageDimensions(fullPath)
+                        : null;
+
+                    filePaths.push(fullPath);
+                    nodes.push({name: entry.name, type: "file", filePath: fullPath, size, mtime: stat.mtimeMs, mime, ...dimensions});
+                    context.count++;
+                } else if (isDirectory) {
+                    if (currentDepth + 1 >= maxDepth) {
+                        throw new Error(this.plugin.i18n.error.depthExceeded
+                            .replace('${depth}', String(currentDepth + 2))
+                            .replace('${maxDepth}', String(maxDepth))
+                        );
+                    }
+
+                    subDirs.push({name: entry.name, path: fullPath});
+                }
+            } catch (err) {
+                recordFailure(task, fullPath);
+                this.plugin.logWarn(this.plugin.i18n.error.cannotRead
+                    .replace('${fileName}', entry.name)
+                    .replace('${error}', this.plugin.getErrorMessage(err))
+                );
+            }
+        }
+
+        updateProgress(task, {scanned: context.count});
+
+        // 并发处理子目录（最多 3 个 worker），平衡性能与资源占用
+        const MAX_CONCURRENT_SUBDIRS = 3;
+        let index = 0;
+
+        const processNext = async (): Promise<void> => {
+            while (index < subDirs.length) {
+                if (task.controller.signal.aborted) {
+                    break;
+                }
+                const subDir = subDirs[index++];
+                const result = await this.buildDirectoryTree(subDir.path, currentDepth + 1, context);
+                const {count, size} = summarizeTree(result.tree);
+                nodes.push({name: subDir.name, type: "directory", children: result.tree, fileCount: count, size});
+                filePaths.push(...result.filePaths);
+            }
+        };
+
+        const workers = Array(Math.min(MAX_CONCURRENT_SUBDIRS, subDirs.length))
+            .fill(null)
+            .map(() => processNext());
+
+        await Promise.all(workers);
+
+        return {tree: nodes, filePaths};
+    }
+
+    /**
+     * 解析需要跟随的符号链接
+     * 断开的链接、指向思源工作空间的链接、指向已扫描目录（循环）的链接不跟随，由调用方按记录方式处理
+     * @param linkPath 符号链接路径
+     * @param context 扫描上下文
+     * @returns 链接目标的 stat，不跟随时返回 null
+     */
+    private resolveSymlink(linkPath: string, context: ScanContext): {isFile(): boolean, isDirectory(): boolean} | null {
+        let target: string;
+        try {
+            target = fs.realpathSync(linkPath);
+        } catch {
+            return null;
+        }
+
+        const validation = this.plugin.workspace.validatePath(target);
+        if (!validation.valid) {
+            this.plugin.logWarn(this.plugin.i18n.error.symlinkRefused
+                .replace('${fileName}', getFileName(linkPath))
+                .replace('${error}', validation.error)
+            );
+            return null;
+        }
+
+        const stat = fs.statSync(target);
+        if (stat.isDirectory() && !this.markVisited(target, context)) {
+            return null;
+        }
+        return stat;
+    }
+
+    /**
+     * 在进入目录之前记录其真实路径
+     * @param realPath 目录的真实路径
+     * @param context 扫描上下文
+     * @returns 是否首次访问，已扫描过（循环或重复）时返回 false
+     */
+    private markVisited(realPath: string, context: ScanContext): boolean {
+        if (context.visited.has(realPath)) return false;
+        context.visited.add(realPath);
+        return true;
+    }
+
+    /**
+     * 读取符号链接的目标路径
+     * @param linkPath 符号链接路径
+     * @returns 目标路径，读取失败时返回 undefined
+     */
+    private readLinkTarget(linkPath: string): string | undefined {
+        try {
+            return fs.readlinkSync(linkPath);
+        } catch {
+            return undefined;
+        }
+    }
+}
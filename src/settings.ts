@@ -0,0 +1,92 @@
+/**
+ * 插件设置：设置项定义、默认值与取值范围
+ */
+import {DEFAULT_ITEM_TEMPLATE, OUTPUT_FORMATS, OutputFormat} from "./libs/render";
+
+// 插件设置接口
+export interface IPluginSettings {
+    batchSize: number;                        // 每批上传的文件数量上限
+    batchBytes: number;                       // 每批上传的总大小上限（MB）
+    maxDepth: number;                         // 最大目录深度限制
+    maxFileSize: number;                      // 单个文件大小限制（MB）
+    maxFiles: number;                         // 最大文件数量限制
+    queueConcurrency: number;                 // 同时运行的上传任务数
+    hiddenDirs: string;                       // 跳过的目录名（逗号分隔）
+    ignorePatterns: string;                   // 全局忽略模式（gitignore 语法，每行一条）
+    useIgnoreFiles: boolean;                  // 是否读取上传目录中的忽略文件
+    showPreview: boolean;                     // 上传前是否显示预览对话框
+    dedupe: boolean;                          // 是否按内容哈希复用已存在的资源
+    importMarkdown: boolean;                  // 上传文件夹时是否将 Markdown 文件导入为文档
+    assetLayout: AssetLayout;                 // 资源存放方式
+    symlinkPolicy: SymlinkPolicy;             // 符号链接处理方式
+    outputFormat: OutputFormat;               // 目录树输出格式
+    itemTemplate: string;                     // 列表项模板（如 `{icon} {link} — {size}, {mtime}`）
+    iconMap: string;                          // 自定义图标映射（每行 `扩展名 = 图标`）
+    embedImages: boolean;                     // 图片渲染为缩略图
+    embedImageMaxSize: number;                // 渲染为缩略图的图片大小上限（MB，0 表示不限制）
+    embedMedia: boolean;                      // 音频 / 视频渲染为音视频块
+    embedCode: boolean;                       // 小文本文件渲染为代码块
+    embedCodeMaxSize: number;                 // 渲染为代码块的文件大小上限（KB）
+}
+
+// 资源存放方式：flat 全部放在 /assets/ 下；mirror 在 /assets/ 下按源目录结构存放
+export type AssetLayout = "flat" | "mirror";
+
+// 符号链接处理方式：skip 跳过；record 记录链接目标但不上传；follow 进入链接目标（带循环检测）
+export type SymlinkPolicy = "skip" | "record" | "follow";
+
+export type NumericSettingKey =
+    | "batchSize"
+    | "batchBytes"
+    | "maxDepth"
+    | "maxFileSize"
+    | "maxFiles"
+    | "queueConcurrency"
+    | "embedImageMaxSize"
+    | "embedCodeMaxSize";
+
+// 默认设置
+export const DEFAULT_SETTINGS: IPluginSettings = {
+    batchSize: 10,
+    batchBytes: 50,
+    maxDepth: 9,
+    maxFileSize: 100,
+    maxFiles: 1000,
+    queueConcurrency: 2,
+    hiddenDirs: "node_modules, .git, .vscode, .idea",
+    ignorePatterns: "",
+    useIgnoreFiles: true,
+    showPreview: true,
+    dedupe: true,
+    importMarkdown: false,
+    assetLayout: "flat",
+    symlinkPolicy: "skip",
+    outputFormat: "list",
+    itemTemplate: DEFAULT_ITEM_TEMPLATE,
+    iconMap: "",
+    embedImages: false,
+    embedImageMaxSize: 10,
+    embedMedia: false,
+    embedCode: false,
+    embedCodeMaxSize: 16,
+};
+
+// 数值设置项的取值范围 [最小值, 最大值]
+export const SETTING_RANGES: Record<NumericSettingKey, [number, number]> = {
+    batchSize: [1, 100],
+    batchBytes: [1, 2048],
+    maxDepth: [1, 32],
+    maxFileSize: [1, 2048],
+    maxFiles: [1, 100000],
+    queueConcurrency: [1, 8],
+    embedImageMaxSize: [0, 2048],
+    embedCodeMaxSize: [1, 1024],
+};
+
+/**
+ * 解析输出格式，未知值回退为列表格式
+ * @param value 设置或块属性中的值
+ */
+export function parseOutputFormat(value: unknown): OutputFormat {
+    return OUTPUT_FORMATS.includes(value as OutputFormat) ? value as OutputFormat : "list";
+}
@@ -0,0 +1,329 @@
+/**
+ * 目录树输出：按输出格式生成目录树并插入编辑器，读写目录树块上保存的属性
+ */
+import {fetchSyncPost} from "siyuan";
+import {parsePatterns} from "./libs/ignore";
+import {createManifest} from "./libs/manifest";
+import {createTimestampId} from "./libs/id";
+import {getNodeIcon} from "./libs/icons";
+import {getCodeLanguage} from "./libs/embed";
+import {
+    OutputFormat,
+    RenderContext,
+    listLeaves,
+    parseDatabaseAvID,
+    renderDatabasePlaceholder,
+    renderTree,
+} from "./libs/render";
+import {
+    addAttributeViewKey,
+    appendAttributeViewDetachedBlocksWithValues,
+    getAttributeViewKeysByAvID,
+    getAttributeViewPrimaryKeyValues,
+    getBlockKramdown,
+    removeAttributeViewBlocks,
+    setBlockAttrs,
+} from "./api";
+import {parseOutputFormat} from "./settings";
+import {getFileName} from "./files";
+import {PluginContext} from "./context";
+
+// 通过 window.require 获取 Node.js 模块（思源插件环境限制）
+const fs = window.require('fs');
+
+// 目录树列表块上保存的自定义属性
+export const ATTR_SOURCE = "custom-folder-tree-source";       // 源目录路径
+export const ATTR_PATTERNS = "custom-folder-tree-patterns";   // 本次上传额外的忽略模式
+export const ATTR_ASSETS_DIR = "custom-folder-tree-assets";   // 镜像模式下的资源根目录
+export const ATTR_FORMAT = "custom-folder-tree-format";       // 输出格式
+export const ATTR_ARCHIVE = "custom-folder-tree-archive";     // 归档模式下压缩包的资源地址
+export const ATTR_MARKDOWN_ROOT = "custom-folder-tree-markdown-root";  // Markdown 文件导入位置的可读路径
+export const ATTR_LINKS_ONLY = "custom-folder-tree-links-only";  // 只链接本地文件，不上传
+export const ATTR_WATCH = "custom-folder-tree-watch";         // 监视源目录并自动同步
+export const ATTR_EXCLUDED = "custom-folder-tree-excluded";   // 预览中被排除的相对路径
+export const DOC_URL_PREFIX = "siyuan://blocks/";             // 目录树中指向导入文档的链接前缀
+
+// 目录树块的生成选项（保存在块属性中，重新同步时沿用）
+export interface TreeOptions {
+    extraPatterns: string[];                   // 本次上传额外的忽略模式
+    assetsDir: string | null;                  // 镜像模式下的资源根目录（平铺模式为 null）
+    format: OutputFormat;                      // 输出格式
+    archiveUrl: string | null;                 // 归档模式下压缩包的地址
+    markdownRoot: string | null;               // Markdown 文件导入位置的可读路径（未导入为 null）
+    linksOnly: boolean;                        // 只链接本地文件，不上传
+    watch: boolean;                            // 监视源目录并自动同步
+    excluded: string[];                        // 预览中被排除的相对路径（重新同步时继续排除）
+}
+
+export class TreeOutput {
+    private plugin: PluginContext;
+
+    constructor(plugin: PluginContext) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * 将上传后的 URL 回填到树结构中（上传失败的文件保留路径、没有地址，之后可重试）
+     * @param tree 树结构
+     * @param urlMap 文件路径到 URL 的映射
+     */
+    fillTreeUrls(tree: TreeNode[], urlMap: Map<string, string>): void {
+        for (const node of tree) {
+            if (node.type === "file" && node.filePath) {
+                const url = urlMap.get(node.filePath);
+                if (url) {
+                    node.url = url;
+                }
+            } else if (node.type === "directory" && node.children) {
+                this.fillTreeUrls(node.children, urlMap);
+            }
+        }
+    }
+
+    /**
+     * 将目录树插入到编辑器
+     * @param tree 目录树
+     * @param dirPath 原始目录路径
+     * @param blockId 目标块 ID
+     * @param options 目录树生成选项
+     * @returns 新插入的目录树块 ID
+     */
+    async insertMarkdown(
+        tree: TreeNode[],
+        dirPath: string,
+        blockId: string,
+        options: TreeOptions
+    ): Promise<string | null> {
+        const dirName = getFileName(dirPath);
+        const {markdown, avID} = await this.renderOutput(tree, dirName, options);
+        const treeBlockId = await this.insertToEditor(markdown, blockId);
+        if (treeBlockId && avID) {
+            await this.fillDatabase(avID, tree);
+        }
+        return treeBlockId;
+    }
+
+    /**
+     * 在目录树块上保存源目录和生成选项，在插件存储中保存上传清单，供重新同步使用
+     * @param treeBlockId 目录树块 ID
+     * @param dirPath 源目录路径
+     * @param tree 已回填 URL 的目录树
+     * @param options 目录树生成选项
+     */
+    async saveTreeAttrs(
+        treeBlockId: string,
+        dirPath: string,
+        tree: TreeNode[],
+        options: TreeOptions
+    ): Promise<void> {
+        try {
+            await setBlockAttrs(treeBlockId, {
+                [ATTR_SOURCE]: dirPath,
+                [ATTR_PATTERNS]: options.extraPatterns.join('\n'),
+                [ATTR_ASSETS_DIR]: options.assetsDir || "",
+                [ATTR_FORMAT]: options.format,
+                [ATTR_ARCHIVE]: options.archiveUrl || "",
+                [ATTR_MARKDOWN_ROOT]: options.markdownRoot || "",
+                [ATTR_LINKS_ONLY]: options.linksOnly ? "true" : "",
+                [ATTR_WATCH]: options.watch ? "true" : "",
+                [ATTR_EXCLUDED]: options.excluded.join('\n'),
+            });
+            await this.plugin.manifests.save(treeBlockId, createManifest(tree));
+        } catch (err) {
+            this.plugin.logError(this.plugin.i18n.error.insertFailed, err);
+        }
+    }
+
+    /**
+     * 从目录树块属性中读取生成选项
+     * @param attrs 块属性
+     * @returns 目录树生成选项
+     */
+    readTreeOptions(attrs: Record<string, string>): TreeOptions {
+        return {
+            extraPatterns: parsePatterns(attrs[ATTR_PATTERNS] || ""),
+            assetsDir: attrs[ATTR_ASSETS_DIR] || null,
+            format: parseOutputFormat(attrs[ATTR_FORMAT]),
+            archiveUrl: attrs[ATTR_ARCHIVE] || null,
+            markdownRoot: attrs[ATTR_MARKDOWN_ROOT] || null,
+            linksOnly: attrs[ATTR_LINKS_ONLY] === "true",
+            watch: attrs[ATTR_WATCH] === "true",
+            excluded: (attrs[ATTR_EXCLUDED] || "").split('\n').filter(Boolean),
+        };
+    }
+
+    /** 创建渲染上下文 */
+    createRenderContext(rootName: string, archiveUrl: string | null): RenderContext {
+        return {
+            rootName,
+            archiveUrl: archiveUrl || undefined,
+            template: this.plugin.settings.itemTemplate,
+            icons: this.plugin.icons,
+            embed: {
+                images: this.plugin.settings.embedImages,
+                imageMaxSize: this.plugin.settings.embedImageMaxSize * 1024 * 1024,
+                media: this.plugin.settings.embedMedia,
+                code: this.plugin.settings.embedCode,
+            },
+            unknownTarget: this.plugin.i18n.error.unknownTarget,
+            fileCount: this.plugin.i18n.upload.fileCount,
+            deleted: this.plugin.i18n.watch.deleted,
+            columns: this.plugin.i18n.columns,
+        };
+    }
+
+    /**
+     * 按输出格式生成目录树内容
+     * @param tree 目录树
+     * @param rootName 根目录名称
+     * @param options 目录树生成选项
+     * @param treeBlockId 要更新的目录树块 ID（新插入时省略）
+     * @returns Markdown 文本；数据库格式同时返回数据库 ID，插入后需调用 fillDatabase。
+     *          更新已有的数据库块时沿用其数据库（existing 为 true），不需要更新块内容
+     */
+    async renderOutput(
+        tree: TreeNode[],
+        rootName: string,
+        options: TreeOptions,
+        treeBlockId?: string
+    ): Promise<{markdown: string, avID?: string, existing?: boolean}> {
+        if (options.format === "database") {
+            // 重新填充原来的数据库，避免每次更新都在 storage/av 中留下无用的数据库
+            const existingID = treeBlockId ? await this.readDatabaseAvID(treeBlockId) : null;
+            const avID = existingID || createTimestampId();
+            return {markdown: renderDatabasePlaceholder(avID), avID, existing: !!existingID};
+        }
+        await this.loadCodeEmbeds(tree);
+        return {markdown: renderTree(tree, options.format, this.createRenderContext(rootName, options.archiveUrl))};
+    }
+
+    /**
+     * 读取数据库块绑定的数据库 ID
+     * @param blockId 块 ID
+     * @returns 数据库 ID，不是数据库块或读取失败时返回 null
+     */
+    private async readDatabaseAvID(blockId: string): Promise<string | null> {
+        try {
+            const block = await getBlockKramdown(blockId);
+            return block?.kramdown ? parseDatabaseAvID(block.kramdown) : null;
+        } catch (err) {
+            this.plugin.logWarn(this.plugin.getErrorMessage(err));
+            return null;
+        }
+    }
+
+    /**
+     * 读取要嵌入为代码块的小文本文件内容（未开启代码嵌入时跳过）
+     * @param tree 目录树
+     */
+    async loadCodeEmbeds(tree: TreeNode[]): Promise<void> {
+        if (!this.plugin.settings.embedCode) return;
+
+        const maxSize = this.plugin.settings.embedCodeMaxSize * 1024;
+        for (const [, node] of listLeaves(tree)) {
+            // 只嵌入已上传的文件；导入为文档的 Markdown 文件链接到文档
+            if (node.type !== "file" || !node.filePath || !node.url || node.url.startsWith(DOC_URL_PREFIX)) continue;
+            if (node.content !== undefined || (node.size || 0) > maxSize || !getCodeLanguage(node.name)) continue;
+
+            try {
+                const content = await fs.promises.readFile(node.filePath, 'utf8');
+                // 含有 NUL 字符的视为二进制文件
+                if (!content.includes("\0")) node.content = content;
+            } catch (err) {
+                this.plugin.logWarn(this.plugin.i18n.error.cannotRead
+                    .replace('${fileName}', node.name)
+                    .replace('${error}', this.plugin.getErrorMessage(err))
+                );
+            }
+        }
+    }
+
+    /**
+     * 为数据库创建列，并为每个文件添加一行；重新填充已有的数据库时沿用同名的列，并先移除原有的行
+     * @param avID 数据库 ID
+     * @param tree 已回填 URL 的目录树
+     * @param existing 是否为已有的数据库
+     */
+    async fillDatabase(avID: string, tree: TreeNode[], existing = false): Promise<void> {
+        const {columns} = this.plugin.i18n;
+        try {
+            // 数据库在插入块后由内核创建，短暂重试等待主键可用
+            let primaryKey: IResAttributeViewKey | undefined;
+            for (let attempt = 0; attempt < 5 && !primaryKey; attempt++) {
+                if (attempt > 0) await new Promise(resolve => setTimeout(resolve, 200));
+                const keys = await getAttributeViewKeysByAvID(avID);
+                primaryKey = keys?.find(key => key.type === "block");
+            }
+            if (!primaryKey) {
+                throw new Error(avID);
+            }
+
+            const keys = existing ? await getAttributeViewKeysByAvID(avID) || [] : [];
+            const keyIds: Record<"path" | "size" | "modified" | "link", string> = {
+                path: "",
+                size: "",
+                modified: "",
+                link: "",
+            };
+            let previousKeyID = primaryKey.id;
+            for (const [column, name, type] of [
+                ["path", columns.path, "text"],
+                ["size", columns.size, "number"],
+                ["modified", columns.modified, "date"],
+                ["link", columns.link, "url"],
+            ] as const) {
+                const key = keys.find(item => item.name === name && item.type === type);
+                if (key) {
+                    keyIds[column] = key.id;
+                } else {
+                    keyIds[column] = createTimestampId();
+                    await addAttributeViewKey(avID, keyIds[column], name, type, "", previousKeyID);
+                }
+                previousKeyID = keyIds[column];
+            }
+
+            if (existing) {
+                const primaryValues = await getAttributeViewPrimaryKeyValues(avID);
+                const rowIds = (primaryValues?.rows?.values || []).map(value => value.blockID).filter(Boolean);
+                if (rowIds.length > 0) {
+                    await removeAttributeViewBlocks(avID, rowIds);
+                }
+            }
+
+            const rows = listLeaves(tree).map(([relativePath, node]) => [
+                {keyID: primaryKey.id, block: {content: [
+                    getNodeIcon(node, this.plugin.icons),
+                    node.name,
+                    node.deleted ? `(${this.plugin.i18n.watch.deleted})` : "",
+                ].filter(Boolean).join(" ")}},
+                {keyID: keyIds.path, text: {content: relativePath}},
+                {keyID: keyIds.size, number: {content: node.size || 0, isNotEmpty: node.size !== undefined}},
+                {keyID: keyIds.modified, date: {content: node.mtime || 0, isNotEmpty: !!node.mtime}},
+                {keyID: keyIds.link, url: {content: node.url || node.linkTarget || ""}},
+            ]);
+            if (rows.length > 0) {
+                await appendAttributeViewDetachedBlocksWithValues(avID, rows);
+            }
+        } catch (err) {
+            this.plugin.logError(this.plugin.i18n.error.databaseFailed, err);
+        }
+    }
+
+    /**
+     * 调用思源 API 插入内容到编辑器
+     * @returns 新插入块的 ID，失败时返回 null
+     */
+    async insertToEditor(markdown: string, blockId: string): Promise<string | null> {
+        try {
+            const response = await fetchSyncPost("/api/block/insertBlock", {
+                dataType: "markdown",
+                data: markdown,
+                previousID: blockId,
+            });
+            return response.data?.[0]?.doOperations?.[0]?.id ?? null;
+        } catch (err) {
+            this.plugin.logError(this.plugin.i18n.error.insertFailed, err);
+            return null;
+        }
+    }
+}
@@ -63,3 +63,18 @@ interface IResExportResources {
     path: string;
 }
 
+interface IResAttributeViewKey {
+    id: string;
+    name: string;
+    type: string;
+    icon: string;
+}
+
+interface IResAttributeViewPrimaryKeyValues {
+    name: string;
+    blockIDs: BlockId[];
+    rows: {
+        key: IResAttributeViewKey;
+        values: {blockID: string}[] | null;
+    };
+}
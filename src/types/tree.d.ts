@@ -0,0 +1,17 @@
+// 目录树节点接口（扫描、预览、渲染共用）
+interface TreeNode {
+    name: string;                              // 文件/目录名
+    type: "file" | "directory" | "symlink";    // 节点类型
+    filePath?: string;                         // 文件完整路径（遍历时填充）
+    size?: number;                             // 文件大小 / 目录下文件总大小（字节，遍历时填充）
+    mtime?: number;                            // 修改时间（毫秒时间戳，遍历时填充）
+    mime?: string;                             // MIME 类型（按扩展名推断，遍历时填充）
+    width?: number;                            // 图片宽度（像素，模板用到尺寸时遍历填充）
+    height?: number;                           // 图片高度（像素）
+    fileCount?: number;                        // 目录下的文件总数（目录类型，遍历时汇总）
+    content?: string;                          // 嵌入为代码块的文本内容（插入目录树前读取）
+    url?: string;                              // 上传后的 URL（上传后填充）
+    deleted?: boolean;                         // 源文件已删除（监视中的目录树保留条目）
+    children?: TreeNode[];                     // 子节点（目录类型）
+    linkTarget?: string;                       // 符号链接目标路径
+}
@@ -0,0 +1,16 @@
+// 上传阶段
+type UploadPhase = "scanning" | "packing" | "uploading" | "inserting" | "done" | "canceled";
+
+// 上传进度（进度面板展示用）
+interface IUploadProgress {
+    phase: UploadPhase;
+    rootName: string;                          // 上传的根目录名
+    scanned: number;                           // 已扫描到的文件数
+    batch: number;                             // 当前批次（从 1 开始）
+    totalBatches: number;                      // 总批次数
+    bytesSent: number;                         // 已发送字节数
+    totalBytes: number;                        // 需发送的总字节数
+    failures: string[];                        // 失败的文件路径
+    retryable: number;                         // 任务结束后可重试的失败文件数
+    uploadStartTime: number;                   // 开始上传的时间戳（用于估算剩余时间）
+}
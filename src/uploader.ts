@@ -0,0 +1,559 @@
+/**
+ * 资源上传：分批或打包上传本地文件到思源资源目录，按内容哈希复用已有资源，失败时重试
+ */
+import {createTimestampId} from "./libs/id";
+import {ZIP_MAX_ENTRIES, ZIP_MAX_SIZE, ZipWriter} from "./libs/zip";
+import {UploadTask, updateProgress, recordFailure} from "./libs/upload-queue";
+import {retryWithBackoff} from "./libs/retry";
+import {packBatches} from "./libs/batch";
+import {formatSize} from "./libs/format";
+import {listLeaves} from "./libs/render";
+import {removeFile, sql} from "./api";
+import {getFileName, sanitizeAssetSegment} from "./files";
+import {PluginContext} from "./context";
+
+// 通过 window.require 获取 Node.js 模块（思源插件环境限制）
+const fs = window.require('fs');
+const path = window.require('path');
+const nodeCrypto = window.require('crypto');
+const os = window.require('os');
+const nodeProcess = window.require('process');
+
+const ASSETS_DIR = "/assets/";                // 思源资源目录路径
+const UPLOAD_RETRIES = 3;                     // 上传请求失败后的最大重试次数
+const UPLOAD_RETRY_DELAY = 1000;              // 第一次重试前的等待时间（毫秒），之后每次翻倍
+
+/**
+ * 流式计算本地文件的 SHA-256（避免一次性读入大文件）
+ * @param filePath 文件完整路径
+ * @returns 十六进制哈希
+ */
+function hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = nodeCrypto.createHash('sha256');
+        fs.createReadStream(filePath)
+            .on('data', (chunk: Uint8Array) => hash.update(chunk))
+            .on('error', reject)
+            .on('end', () => resolve(hash.digest('hex')));
+    });
+}
+
+/**
+ * 流式读取本地文件为 Blob（每个分块交给浏览器的 Blob 存储，避免一次性读入整个文件）
+ * @param filePath 文件完整路径
+ * @param signal 取消信号
+ * @returns 文件内容
+ */
+function readFileBlob(filePath: string, signal: AbortSignal): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        const parts: Blob[] = [];
+        const stream = fs.createReadStream(filePath, {signal});
+        stream
+            .on('data', (chunk: Uint8Array<ArrayBuffer>) => parts.push(new Blob([chunk])))
+            .on('error', reject)
+            .on('end', () => resolve(new Blob(parts)));
+    });
+}
+
+export class AssetUploader {
+    private plugin: PluginContext;
+
+    constructor(plugin: PluginContext) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * 删除没有被任何块引用的资源
+     * 去重索引可能已让其他上传复用了这些资源，仍被引用的资源保留
+     * @param urls 资源地址
+     * @returns 删除的资源数
+     */
+    async removeUnusedAssets(urls: string[]): Promise<number> {
+        let removed = 0;
+        for (const url of urls) {
+            try {
+                const refs = await sql(`SELECT id FROM assets WHERE path = '${url.replace(/'/g, "''")}' LIMIT 1`);
+                if (refs?.length > 0) continue;
+                await removeFile(`/data/${url}`);
+                removed++;
+            } catch (err) {
+                this.plugin.logWarn(this.plugin.getErrorMessage(err));
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * 生成镜像模式的资源根目录，如 `/assets/MyFolder-20240101120000-a1b2c3d/`
+     * @param dirPath 上传的源目录
+     * @returns 资源根目录
+     */
+    createMirrorAssetsDir(dirPath: string): string {
+        return `${ASSETS_DIR}${sanitizeAssetSegment(getFileName(dirPath))}-${createTimestampId()}/`;
+    }
+
+    /**
+     * 将文件分批：按文件数和总大小切分，超过大小上限的文件单独成批；
+     * 镜像模式先按所在目录分组，保证同一批次的资源目录一致
+     * @param filePaths 文件路径列表
+     * @param fileSizes 文件大小映射
+     * @param rootDir 上传的源目录
+     * @param assetsDir 镜像模式下的资源根目录（平铺模式为 null）
+     * @returns 批次列表
+     */
+    private createBatches(
+        filePaths: string[],
+        fileSizes: Map<string, number>,
+        rootDir: string,
+        assetsDir: string | null
+    ): Array<{paths: string[], assetsDirPath: string}> {
+        const {batchSize, batchBytes} = this.plugin.settings;
+        const groups = new Map<string, string[]>();
+
+        if (assetsDir) {
+            for (const filePath of filePaths) {
+                const relativeDir = path.relative(rootDir, path.dirname(filePath))
+                    .split(path.sep)
+                    .filter((segment: string) => segment.length > 0)
+                    .map(sanitizeAssetSegment)
+                    .join('/');
+                const assetsDirPath = relativeDir ? `${assetsDir}${relativeDir}/` : assetsDir;
+                if (!groups.has(assetsDirPath)) groups.set(assetsDirPath, []);
+                groups.get(assetsDirPath).push(filePath);
+            }
+        } else {
+            groups.set(ASSETS_DIR, filePaths);
+        }
+
+        const batches: Array<{paths: string[], assetsDirPath: string}> = [];
+        for (const [assetsDirPath, paths] of groups) {
+            for (const batch of packBatches(paths, fileSizes, batchSize, batchBytes * 1024 * 1024)) {
+                batches.push({paths: batch, assetsDirPath});
+            }
+        }
+        return batches;
+    }
+
+    /**
+     * 批量上传文件（分批处理，每批不超过 batchSize 个文件、batchBytes MB）
+     * @param task 上传任务
+     * @param filePaths 文件路径列表
+     * @param fileSizes 文件大小映射（用于统计进度）
+     * @param rootDir 上传的源目录（镜像模式用于计算相对目录）
+     * @param assetsDir 镜像模式下的资源根目录，平铺模式为 null
+     * @returns 文件路径到 URL 的映射
+     */
+    async uploadFilesInBatches(
+        task: UploadTask,
+        filePaths: string[],
+        fileSizes: Map<string, number> = new Map(),
+        rootDir = "",
+        assetsDir: string | null = null
+    ): Promise<Map<string, string>> {
+        const allResults = new Map<string, string>();
+        const batches = this.createBatches(filePaths, fileSizes, rootDir, assetsDir);
+
+        let bytesSent = 0;
+        updateProgress(task, {
+            phase: "uploading",
+            totalBatches: batches.length,
+            totalBytes: filePaths.reduce((sum, filePath) => sum + (fileSizes.get(filePath) || 0), 0),
+            uploadStartTime: Date.now(),
+        });
+
+        for (let i = 0; i < batches.length; i++) {
+            if (task.controller.signal.aborted) {
+                break;
+            }
+
+            const {paths: batchPaths, assetsDirPath} = batches[i];
+            updateProgress(task, {batch: i + 1});
+
+            const hashes = this.plugin.settings.dedupe ? await this.hashFiles(batchPaths) : new Map<string, string>();
+            const pendingPaths = this.reuseKnownAssets(task, batchPaths, hashes, allResults);
+            const uploadedUrls: string[] = [];
+
+            if (pendingPaths.length > 0) {
+                const renameMap = this.generateRenameMap(pendingPaths);
+                const batchResults = await this.uploadSingleBatch(task, pendingPaths, renameMap, i + 1, assetsDirPath);
+
+                for (const filePath of pendingPaths) {
+                    const uploadedName = renameMap.get(filePath) || getFileName(filePath);
+                    const url = batchResults.get(uploadedName);
+
+                    if (url) {
+                        allResults.set(filePath, url);
+                        uploadedUrls.push(url);
+                        const hash = hashes.get(filePath);
+                        if (hash) this.plugin.assetIndex.set(hash, url);
+                    } else {
+                        recordFailure(task, filePath);
+                    }
+                }
+            }
+            task.uploaded.push(...uploadedUrls);
+            await this.plugin.jobs.recordJobBatch(task, batchPaths, allResults, uploadedUrls);
+
+            for (const filePath of batchPaths) {
+                bytesSent += fileSizes.get(filePath) || 0;
+            }
+            updateProgress(task, {bytesSent});
+        }
+
+        try {
+            await this.plugin.assetIndex.save();
+        } catch (err) {
+            this.plugin.logWarn(this.plugin.getErrorMessage(err));
+        }
+
+        this.plugin.logDebug(this.plugin.i18n.upload.memoryPeak
+            .replace('${batches}', String(batches.length))
+            .replace('${bytes}', formatSize(task.peakBatchBytes))
+            .replace('${rss}', formatSize(task.peakRss))
+        );
+        return allResults;
+    }
+
+    /**
+     * 将目录树中的文件打包为 ZIP，作为单个资源上传
+     * 压缩包在系统临时目录中生成，上传后删除
+     * @param task 上传任务
+     * @param tree 目录树
+     * @param dirPath 上传的源目录
+     * @param assetsDir 镜像模式下的资源根目录，平铺模式为 null
+     * @returns 压缩包地址，以及文件路径到压缩包内地址（`压缩包#相对路径`）的映射
+     */
+    async uploadArchive(
+        task: UploadTask,
+        tree: TreeNode[],
+        dirPath: string,
+        assetsDir: string | null
+    ): Promise<{archiveUrl: string | null, urlMap: Map<string, string>}> {
+        const urlMap = new Map<string, string>();
+        const leaves = listLeaves(tree).filter(([, node]) => node.type === "file" && node.filePath);
+        const totalSize = leaves.reduce((sum, [, node]) => sum + (node.size || 0), 0);
+        // 压缩包作为单个文件上传（超过每批大小时单独发送），与其他文件一样受单个文件大小限制
+        const maxSize = Math.min(ZIP_MAX_SIZE, this.plugin.settings.maxFileSize * 1024 * 1024);
+        if (leaves.length > ZIP_MAX_ENTRIES || totalSize > maxSize) {
+            throw new Error(this.plugin.i18n.error.archiveTooLarge.replace('${maxSize}', formatSize(maxSize)));
+        }
+
+        updateProgress(task, {phase: "packing"});
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'siyuan-folder-tree-'));
+        try {
+            const archivePath = path.join(tempDir, `${sanitizeAssetSegment(getFileName(dirPath))}.zip`);
+            const packed = await this.writeArchive(task, leaves, archivePath);
+            if (!packed) {
+                return {archiveUrl: null, urlMap};
+            }
+
+            const sizes = new Map([[archivePath, fs.statSync(archivePath).size]]);
+            const uploaded = await this.uploadFilesInBatches(task, [archivePath], sizes, tempDir, assetsDir);
+            const archiveUrl = uploaded.get(archivePath);
+            if (!archiveUrl) {
+                if (task.controller.signal.aborted) {
+                    return {archiveUrl: null, urlMap};
+                }
+                throw new Error(this.plugin.i18n.error.archiveFailed);
+            }
+
+            for (const [filePath, relativePath] of packed) {
+                const fragment = relativePath.split('/').map(encodeURIComponent).join('/');
+                urlMap.set(filePath, `${archiveUrl}#${fragment}`);
+            }
+            return {archiveUrl, urlMap};
+        } finally {
+            fs.rmSync(tempDir, {recursive: true, force: true});
+        }
+    }
+
+    /**
+     * 将文件逐个打包写入压缩包文件，同一时间只在内存中保留一个文件
+     * @param task 上传任务
+     * @param leaves 要打包的 [相对路径, 文件节点] 列表
+     * @param archivePath 压缩包路径
+     * @returns 已打包的 [文件路径, 压缩包内路径] 列表，任务取消时返回 null
+     */
+    private async writeArchive(
+        task: UploadTask,
+        leaves: Array<[string, TreeNode]>,
+        archivePath: string
+    ): Promise<Array<[string, string]> | null> {
+        const stream = fs.createWriteStream(archivePath);
+        // 写入错误通过 write 回调传给 ZipWriter
+        stream.on("error", () => {});
+        // 等待每段数据写出后再继续，避免数据堆积在写入缓冲区中
+        const zip = new ZipWriter(data => new Promise<void>((resolve, reject) => {
+            stream.write(data, err => err ? reject(err) : resolve());
+        }));
+
+        const packed: Array<[string, string]> = [];
+        try {
+            for (const [relativePath, node] of leaves) {
+                if (task.controller.signal.aborted) {
+                    return null;
+                }
+
+                let data: Uint8Array;
+                try {
+                    data = await fs.promises.readFile(node.filePath);
+                } catch (err) {
+                    this.plugin.logWarn(this.plugin.i18n.error.cannotRead
+                        .replace('${fileName}', node.name)
+                        .replace('${error}', this.plugin.getErrorMessage(err))
+                    );
+                    recordFailure(task, node.filePath);
+                    continue;
+                }
+                await zip.add(relativePath, data, new Date(node.mtime || Date.now()));
+                packed.push([node.filePath, relativePath]);
+            }
+            await zip.finish();
+            return packed;
+        } finally {
+            await new Promise<void>(resolve => stream.end(() => resolve()));
+        }
+    }
+
+    /**
+     * 并发计算文件哈希（最多 5 个），计算失败的文件不参与去重
+     * @param filePaths 文件路径列表
+     * @returns 文件路径到哈希的映射
+     */
+    private async hashFiles(filePaths: string[]): Promise<Map<string, string>> {
+        const MAX_CONCURRENT_HASHES = 5;
+        const hashes = new Map<string, string>();
+
+        for (let i = 0; i < filePaths.length; i += MAX_CONCURRENT_HASHES) {
+            const batch = filePaths.slice(i, i + MAX_CONCURRENT_HASHES);
+            await Promise.all(batch.map(async (filePath) => {
+                try {
+                    hashes.set(filePath, await hashFile(filePath));
+                } catch (err) {
+                    this.plugin.logWarn(this.plugin.i18n.error.cannotRead
+                        .replace('${fileName}', getFileName(filePath))
+                        .replace('${error}', this.plugin.getErrorMessage(err))
+                    );
+                }
+            }));
+        }
+
+        return hashes;
+    }
+
+    /**
+     * 复用哈希索引中已存在的资源
+     * @param task 上传任务
+     * @param filePaths 本批次文件路径
+     * @param hashes 文件路径到哈希的映射
+     * @param results 上传结果（复用的地址直接写入）
+     * @returns 仍需上传的文件路径
+     */
+    private reuseKnownAssets(task: UploadTask, filePaths: string[], hashes: Map<string, string>, results: Map<string, string>): string[] {
+        const pending: string[] = [];
+
+        for (const filePath of filePaths) {
+            const hash = hashes.get(filePath);
+            const url = hash ? this.plugin.assetIndex.get(hash) : undefined;
+
+            if (url && this.plugin.workspace.assetExists(url)) {
+                results.set(filePath, url);
+                task.deduped++;
+            } else {
+                if (url) this.plugin.assetIndex.delete(hash);
+                pending.push(filePath);
+            }
+        }
+
+        return pending;
+    }
+
+    /**
+     * 检测批次内同名文件，生成重命名映射
+     * @param filePaths 文件路径列表
+     * @returns 文件路径到重命名后文件名的映射
+     */
+    private generateRenameMap(filePaths: string[]): Map<string, string> {
+        const nameCountMap = new Map<string, number>();
+        const renameMap = new Map<string, string>();
+
+        for (const filePath of filePaths) {
+            const originalName = getFileName(filePath);
+            const count = nameCountMap.get(originalName) || 0;
+            nameCountMap.set(originalName, count + 1);
+
+            if (count > 0) {
+                const ext = path.extname(originalName);
+                const baseName = path.basename(originalName, ext);
+                const uniqueName = `${baseName}_${count}${ext}`;
+                renameMap.set(filePath, uniqueName);
+            }
+        }
+
+        return renameMap;
+    }
+
+    /**
+     * 上传单个批次：失败时按指数退避重试，仍然失败则拆成单个文件逐个上传，找出导致失败的文件
+     * @param task 上传任务
+     * @param batch 批次文件路径列表
+     * @param renameMap 重命名映射
+     * @param batchNumber 批次编号
+     * @param assetsDirPath 资源存放目录
+     * @returns 文件名到 URL 的映射
+     */
+    private async uploadSingleBatch(
+        task: UploadTask,
+        batch: string[],
+        renameMap: Map<string, string>,
+        batchNumber: number,
+        assetsDirPath: string = ASSETS_DIR
+    ): Promise<Map<string, string>> {
+        const formData = await this.createFormDataFromPaths(task, batch, renameMap, assetsDirPath);
+        const files = formData.getAll("file[]") as File[];
+        if (files.length === 0) return new Map();
+
+        try {
+            return await this.sendWithRetry(task, formData, batchNumber);
+        } catch (err) {
+            this.plugin.logError(this.plugin.i18n.error.batchUploadFailed
+                .replace('${batchNumber}', String(batchNumber))
+                .replace('${error}', this.plugin.getErrorMessage(err))
+            );
+            if (files.length === 1 || task.controller.signal.aborted) return new Map();
+        }
+
+        // 复用已读取的文件内容，不再重新读取磁盘
+        this.plugin.logWarn(this.plugin.i18n.error.batchSplit.replace('${batchNumber}', String(batchNumber)));
+        const results = new Map<string, string>();
+        for (const file of files) {
+            if (task.controller.signal.aborted) break;
+
+            const single = new FormData();
+            single.append("assetsDirPath", assetsDirPath);
+            single.append("file[]", file);
+            try {
+                const uploaded = await this.sendWithRetry(task, single, batchNumber);
+                uploaded.forEach((url, name) => results.set(name, url));
+            } catch (err) {
+                this.plugin.logError(this.plugin.i18n.error.fileUploadFailed
+                    .replace('${fileName}', file.name)
+                    .replace('${error}', this.plugin.getErrorMessage(err))
+                );
+            }
+        }
+        return results;
+    }
+
+    /**
+     * 发送上传请求，失败时按指数退避重试
+     * @param task 上传任务（取消时停止重试）
+     * @param formData FormData 对象
+     * @param batchNumber 批次编号
+     * @returns 文件名到 URL 的映射
+     * @throws 重试次数用完或任务已取消
+     */
+    private sendWithRetry(task: UploadTask, formData: FormData, batchNumber: number): Promise<Map<string, string>> {
+        return retryWithBackoff(() => this.sendUploadRequest(formData, task.controller.signal), {
+            retries: UPLOAD_RETRIES,
+            baseDelay: UPLOAD_RETRY_DELAY,
+            signal: task.controller.signal,
+            onRetry: (err, attempt, delay) => this.plugin.logWarn(this.plugin.i18n.error.batchRetry
+                .replace('${batchNumber}', String(batchNumber))
+                .replace('${error}', this.plugin.getErrorMessage(err))
+                .replace('${delay}', String(delay / 1000))
+                .replace('${attempt}', String(attempt))
+                .replace('${retries}', String(UPLOAD_RETRIES))
+            ),
+        });
+    }
+
+    /**
+     * 从文件路径创建 FormData（并发读取文件）
+     * @param task 上传任务
+     * @param filePaths 文件路径列表
+     * @param renameMap 重命名映射
+     * @param assetsDirPath 资源存放目录
+     * @returns FormData 对象
+     */
+    private async createFormDataFromPaths(
+        task: UploadTask,
+        filePaths: string[],
+        renameMap: Map<string, string>,
+        assetsDirPath: string = ASSETS_DIR
+    ): Promise<FormData> {
+        const formData = new FormData();
+        formData.append("assetsDirPath", assetsDirPath);
+
+        // 并发读取文件（最多 5 个），降低内存占用峰值
+        const MAX_CONCURRENT_READS = 5;
+        const results: Array<{file: File | null, success: boolean}> = [];
+
+        for (let i = 0; i < filePaths.length; i += MAX_CONCURRENT_READS) {
+            const batch = filePaths.slice(i, i + MAX_CONCURRENT_READS);
+
+            const batchPromises = batch.map(async (filePath) => {
+                try {
+                    if (task.controller.signal.aborted) {
+                        return {file: null, success: false};
+                    }
+
+                    const blob = await readFileBlob(filePath, task.controller.signal);
+                    const uploadName = renameMap.get(filePath) || getFileName(filePath);
+                    return {file: new File([blob], uploadName), success: true};
+                } catch {
+                    if (task.controller.signal.aborted) {
+                        return {file: null, success: false};
+                    }
+                    recordFailure(task, filePath);
+                    this.plugin.logWarn(this.plugin.i18n.error.readFileFailed.replace('${filePath}', filePath));
+                    return {file: null, success: false};
+                }
+            });
+
+            results.push(...await Promise.all(batchPromises));
+        }
+
+        let batchBytes = 0;
+        for (const result of results) {
+            if (result.success && result.file) {
+                formData.append("file[]", result.file);
+                batchBytes += result.file.size;
+            }
+        }
+
+        task.peakBatchBytes = Math.max(task.peakBatchBytes, batchBytes);
+        task.peakRss = Math.max(task.peakRss, nodeProcess.memoryUsage().rss);
+        return formData;
+    }
+
+    /**
+     * 发送上传请求到思源 API
+     * @param formData FormData 对象
+     * @param signal 取消信号
+     * @returns 文件名到 URL 的映射
+     * @throws 请求失败或接口返回错误
+     */
+    private async sendUploadRequest(formData: FormData, signal: AbortSignal): Promise<Map<string, string>> {
+        const response = await fetch("/api/asset/upload", {
+            method: "POST",
+            body: formData,
+            signal,
+        });
+        const result = await response.json();
+
+        if (result.code !== 0) {
+            throw new Error(result.msg || this.plugin.i18n.error.uploadFailed);
+        }
+        return this.parseUploadResponse(result.data?.succMap || {});
+    }
+
+    /** 解析思源 API 响应 */
+    private parseUploadResponse(succMap: Record<string, string>): Map<string, string> {
+        const results = new Map<string, string>();
+        for (const [name, url] of Object.entries(succMap)) {
+            results.set(name, url);
+        }
+        return results;
+    }
+}
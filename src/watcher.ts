@@ -0,0 +1,207 @@
+/**
+ * 源目录监视：目录树的源目录变化后防抖，再加入一次后台重新同步任务
+ */
+import {showMessage} from "siyuan";
+import {IgnoreMatcher} from "./libs/ignore";
+import {UploadTask} from "./libs/upload-queue";
+import {getBlockAttrs, setBlockAttrs, sql} from "./api";
+import {getFileName, isDirectory} from "./files";
+import {PluginContext} from "./context";
+import {FilterFn, parseHiddenDirs, createDefaultFilter} from "./scanner";
+import {ATTR_WATCH, ATTR_SOURCE} from "./tree-output";
+
+// 通过 window.require 获取 Node.js 模块（思源插件环境限制）
+const fs = window.require('fs');
+const path = window.require('path');
+
+// 监视中的目录树：源目录变化后防抖，再加入一次重新同步任务
+interface FolderWatch {
+    dirPath: string;                           // 源目录
+    watcher: {close(): void} | null;           // fs.watch 返回的监视器
+    filter: FilterFn;                          // 名称过滤器（隐藏文件和跳过的目录的变化不触发同步）
+    matcher: IgnoreMatcher;                    // 忽略模式匹配器
+    timer: ReturnType<typeof setTimeout> | null;  // 防抖定时器
+    task: UploadTask | null;                   // 排队或运行中的同步任务
+    dirty: boolean;                            // 同步期间又发生了变化，结束后需要再同步一次
+}
+
+const WATCH_DEBOUNCE = 2000;                           // 源目录最后一次变化后等待多久再同步（毫秒）
+const MAX_WATCHES = 256;                               // 启动时最多恢复的监视数
+
+export class FolderWatcher {
+    private plugin: PluginContext;
+    private watches = new Map<string, FolderWatch>(); // 监视中的目录树（目录树块 ID → 监视状态）
+
+    constructor(plugin: PluginContext) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * 开启或关闭目录树的监视：标记保存在块属性中，开启后立即同步一次
+     * @param treeBlockId 目录树块 ID
+     * @param dirPath 源目录
+     * @param enabled 是否监视
+     */
+    async setWatch(treeBlockId: string, dirPath: string, enabled: boolean): Promise<void> {
+        try {
+            await setBlockAttrs(treeBlockId, {[ATTR_WATCH]: enabled ? "true" : ""});
+        } catch (err) {
+            this.plugin.logError(this.plugin.i18n.error.insertFailed, err);
+            return;
+        }
+
+        const fileName = getFileName(dirPath);
+        if (!enabled) {
+            this.stopWatch(treeBlockId);
+            showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.watch.stopped.replace('${fileName}', fileName)}`);
+            return;
+        }
+        if (!this.startWatch(treeBlockId, dirPath)) {
+            showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.watch.failed.replace('${path}', dirPath)}`);
+            return;
+        }
+        showMessage(`[${this.plugin.name}]: ${this.plugin.i18n.watch.started.replace('${fileName}', fileName)}`);
+        this.queueWatchSync(treeBlockId);
+    }
+
+    /** 从块属性恢复监视中的目录树，并同步思源未运行期间的变化 */
+    async restoreWatches(): Promise<void> {
+        try {
+            const rows: Array<{id: string, source: string}> = await sql(
+                `SELECT w.block_id AS id, s.value AS source FROM attributes w`
+                + ` JOIN attributes s ON s.block_id = w.block_id AND s.name = '${ATTR_SOURCE}'`
+                + ` WHERE w.name = '${ATTR_WATCH}' AND w.value = 'true' LIMIT ${MAX_WATCHES}`
+            );
+            for (const {id, source} of rows || []) {
+                if (this.startWatch(id, source)) {
+                    this.scheduleWatchSync(id);
+                }
+            }
+        } catch (err) {
+            this.plugin.logError(this.plugin.i18n.watch.restoreFailed, err);
+        }
+    }
+
+    /**
+     * 开始监视源目录（递归），变化经防抖后触发重新同步
+     * @param treeBlockId 目录树块 ID
+     * @param dirPath 源目录
+     * @returns 是否在监视
+     */
+    private startWatch(treeBlockId: string, dirPath: string): boolean {
+        if (this.watches.has(treeBlockId)) return true;
+        if (!isDirectory(dirPath) || !this.plugin.workspace.validatePath(dirPath).valid) {
+            this.plugin.logWarn(this.plugin.i18n.watch.failed.replace('${path}', dirPath));
+            return false;
+        }
+
+        const watch: FolderWatch = {
+            dirPath,
+            watcher: null,
+            filter: createDefaultFilter(parseHiddenDirs(this.plugin.settings.hiddenDirs)),
+            matcher: this.plugin.scanner.createIgnoreMatcher(dirPath),
+            timer: null,
+            task: null,
+            dirty: false,
+        };
+        try {
+            const watcher = fs.watch(dirPath, {recursive: true}, (_event: string, fileName: string | null) => {
+                if (fileName && this.isIgnoredChange(watch, fileName)) return;
+                this.scheduleWatchSync(treeBlockId);
+            });
+            watcher.on('error', (err: unknown) => {
+                this.plugin.logError(this.plugin.i18n.watch.failed.replace('${path}', dirPath), err);
+                this.stopWatch(treeBlockId);
+            });
+            watch.watcher = watcher;
+        } catch (err) {
+            this.plugin.logError(this.plugin.i18n.watch.failed.replace('${path}', dirPath), err);
+            return false;
+        }
+        this.watches.set(treeBlockId, watch);
+        return true;
+    }
+
+    /**
+     * 判断变化的路径是否会被扫描忽略（隐藏文件、跳过的目录、忽略模式）
+     * @param watch 监视状态
+     * @param fileName fs.watch 报告的相对路径
+     */
+    private isIgnoredChange(watch: FolderWatch, fileName: string): boolean {
+        const relativePath = fileName.split(path.sep).join('/');
+        if (relativePath.split('/').some(segment => !watch.filter(segment))) return true;
+        return !watch.matcher.empty && watch.matcher.ignores(relativePath, false);
+    }
+
+    /**
+     * 源目录变化后重新计时，最后一次变化 WATCH_DEBOUNCE 毫秒后再同步
+     * @param treeBlockId 目录树块 ID
+     */
+    private scheduleWatchSync(treeBlockId: string): void {
+        const watch = this.watches.get(treeBlockId);
+        if (!watch) return;
+
+        clearTimeout(watch.timer);
+        watch.timer = setTimeout(() => {
+            watch.timer = null;
+            this.queueWatchSync(treeBlockId);
+        }, WATCH_DEBOUNCE);
+    }
+
+    /**
+     * 将监视中的目录树的重新同步加入队列；已有同步任务时只记录变化，结束后再同步一次
+     * @param treeBlockId 目录树块 ID
+     */
+    private queueWatchSync(treeBlockId: string): void {
+        const watch = this.watches.get(treeBlockId);
+        if (!watch) return;
+        if (watch.task) {
+            watch.dirty = true;
+            return;
+        }
+
+        // 任务结束（包括排队时被取消）后由 finishWatchSync 复位
+        watch.task = this.plugin.uploadQueue.add(getFileName(watch.dirPath), async task => {
+            // 目录树块已删除，或在其他设备上取消了监视
+            const attrs = await getBlockAttrs(treeBlockId);
+            if (attrs?.[ATTR_WATCH] !== "true") {
+                this.stopWatch(treeBlockId);
+                return;
+            }
+            await this.plugin.folders.resyncFolder(task, treeBlockId);
+        }, true);
+    }
+
+    /**
+     * 监视同步任务结束：复位同步状态，同步期间又有变化时再安排一次同步
+     * @param task 已结束的任务
+     */
+    finishWatchSync(task: UploadTask): void {
+        for (const [treeBlockId, watch] of this.watches) {
+            if (watch.task !== task) continue;
+            watch.task = null;
+            if (watch.dirty) {
+                watch.dirty = false;
+                this.scheduleWatchSync(treeBlockId);
+            }
+        }
+    }
+
+    /**
+     * 停止监视目录树的源目录
+     * @param treeBlockId 目录树块 ID
+     */
+    stopWatch(treeBlockId: string): void {
+        const watch = this.watches.get(treeBlockId);
+        if (!watch) return;
+
+        clearTimeout(watch.timer);
+        watch.watcher?.close();
+        this.watches.delete(treeBlockId);
+    }
+
+    /** 停止全部监视（插件卸载时调用） */
+    stopAll(): void {
+        [...this.watches.keys()].forEach(treeBlockId => this.stopWatch(treeBlockId));
+    }
+}